@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { BookOpen, PlusCircle, Home as HomeIcon, LogIn, LogOut, Cloud, RefreshCw, CloudOff, Calendar, Settings as SettingsIcon, Gamepad2 } from 'lucide-react';
 import Home from './pages/Home';
 import AddCards from './pages/AddCards';
@@ -7,16 +7,27 @@ import Deck from './pages/Deck';
 import Settings from './pages/Settings';
 import Game from './pages/Game';
 import EndlessMode from './pages/EndlessMode';
+import CustomStudy from './pages/CustomStudy';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
 import { SyncProvider, useSync } from './contexts/SyncContext';
+import { storage } from './utils/storage';
+import { precacheStrokeData } from './utils/handwriting';
 
-export type View = 'home' | 'add' | 'review' | 'deck' | 'settings' | 'game' | 'endless';
+export type View = 'home' | 'add' | 'review' | 'deck' | 'settings' | 'game' | 'endless' | 'custom';
 
 function AppContent() {
   const [view, setView] = useState<View>('home');
   const { user, signIn, logout } = useAuth();
   const { isSyncing, isOnline, pendingSync } = useSync();
 
+  // Keep the stroke data of the deck's characters available offline (new cards are
+  // picked up on the next page change)
+  useEffect(() => {
+    if (!isOnline) return;
+    precacheStrokeData(storage.getCards().map(c => c.hanzi))
+      .catch(e => console.error('Failed to precache stroke data', e));
+  }, [isOnline, view]);
+
   return (
     <div className="min-h-screen flex flex-col bg-gray-50 text-gray-900 font-sans">
       {/* Navigation Header (Desktop) */}
@@ -125,6 +136,7 @@ function AppContent() {
         {view === 'game' && <Game />}
         {view === 'review' && <Review onExit={() => setView('home')} />}
         {view === 'endless' && <EndlessMode onExit={() => setView('home')} />}
+        {view === 'custom' && <CustomStudy onExit={() => setView('home')} />}
       </main>
 
       {/* Bottom Navigation (Mobile Only) */}
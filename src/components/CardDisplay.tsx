@@ -1,19 +1,34 @@
-import { Eye, Volume2, Sparkles, EyeOff, ArrowLeftRight } from 'lucide-react';
-import { Card, ReviewRating } from '../types';
-import { useState } from 'react';
+import { Eye, Volume2, Sparkles, EyeOff, ArrowLeftRight, PenTool } from 'lucide-react';
+import { Card, CardKind, ReviewRating } from '../types';
+import { useEffect, useRef, useState } from 'react';
 import { ai } from '../utils/ai';
 import HandwritingCanvas from './HandwritingCanvas';
+import StrokeOrder from './StrokeOrder';
 import { getSettings } from '../pages/Settings';
+import { fsrs } from '../utils/fsrs';
+import { AnswerResult, checkAnswer, getAnswerMode } from '../utils/answer';
+import { toneMarkInput } from '../utils/pinyin';
+
+// Prompt texts for each card kind
+const KIND_TEXT: Record<CardKind, { front: string; answer: string; placeholder: string }> = {
+  'zh-fr': { front: 'Hanzi', answer: 'Answer in French', placeholder: 'Type meaning...' },
+  'fr-zh': { front: 'Translation', answer: 'Answer in Chinese (Hanzi or Pinyin)', placeholder: 'Type Hanzi or Pinyin...' },
+  'listening': { front: 'Listen', answer: 'Answer in French', placeholder: 'Type meaning...' },
+  'pinyin-zh': { front: 'Pinyin', answer: 'Answer in Hanzi', placeholder: 'Type Hanzi...' },
+  'cloze': { front: 'Fill in the blank', answer: 'Answer in Chinese (Hanzi or Pinyin)', placeholder: 'Type Hanzi or Pinyin...' }
+};
 
 interface CardDisplayProps {
   card: Card;
-  direction: 'zh-fr' | 'fr-zh';
+  direction: CardKind;
   isFlipped: boolean;
   onFlip: () => void;
   onHideAnswer?: () => void;
   onRate?: (rating: ReviewRating) => void;
-  onResult?: (correct: boolean) => void; // For Endless Mode streak tracking
+  onResult?: (correct: boolean, durationMs: number, result: AnswerResult) => void; // Typed answer checked (streaks, auto-grade)
+  suggestedRating?: ReviewRating | null; // Highlighted rating (auto-grade)
   showRatingButtons?: boolean; // To hide SRS buttons in Endless Mode
+  showIntervals?: boolean; // Next-interval hints under the rating buttons (off when ratings don't reschedule)
 }
 
 export default function CardDisplay({ 
@@ -24,8 +39,11 @@ export default function CardDisplay({
   onHideAnswer,
   onRate,
   onResult,
-  showRatingButtons = true
+  showRatingButtons = true,
+  showIntervals = true,
+  suggestedRating = null
 }: CardDisplayProps) {
+  const shownAtRef = useRef(Date.now());
   const [aiExplanation, setAiExplanation] = useState<string | null>(null);
   const [loadingAi, setLoadingAi] = useState(false);
   const [userAnswer, setUserAnswer] = useState('');
@@ -33,88 +51,58 @@ export default function CardDisplay({
   // Toggle for guessing mode (Pinyin vs Translation)
   const [guessMode, setGuessMode] = useState<'translation' | 'pinyin'>('translation');
 
-  const [feedback, setFeedback] = useState<'idle' | 'correct' | 'incorrect'>('idle');
+  const [feedback, setFeedback] = useState<'idle' | AnswerResult>('idle');
+  const [handwritingChecked, setHandwritingChecked] = useState(false);
+  const [showStrokes, setShowStrokes] = useState(false);
 
   const settings = getSettings();
   const isZhToFr = direction === 'zh-fr';
+  // Kinds answered by producing the Chinese word
+  const expectsChinese = direction === 'fr-zh' || direction === 'pinyin-zh' || direction === 'cloze';
+  const text = KIND_TEXT[direction];
+  const answerMode = getAnswerMode(direction, guessMode === 'pinyin');
+
+  const speakWord = () => {
+    const utterance = new SpeechSynthesisUtterance(card.hanzi);
+    utterance.lang = 'zh-CN';
+    window.speechSynthesis.speak(utterance);
+  };
+
+  // Listening cards play the word as soon as they are shown
+  useEffect(() => {
+    if (direction === 'listening') speakWord();
+  }, [card.id, direction]);
+
+  // Next interval for each rating (respects learning steps), e.g. "1m", "3d"
+  const intervals = isFlipped && showRatingButtons && showIntervals && onRate ? fsrs.preview(card) : null;
   
   // Enable handwriting if setting is on AND we are doing FR -> ZH (Standard Review only usually)
   // But logic here might conflict with input field. 
   // Let's keep handwriting ONLY if we are NOT showing the text input? 
   // Or maybe show both? For now, let's prioritize the new text input interface as requested.
-  const enableHandwriting = settings.enableHandwriting && !isZhToFr && showRatingButtons;
+  const enableHandwriting = settings.enableHandwriting && expectsChinese && showRatingButtons;
 
-  const checkAnswer = () => {
+  const submitAnswer = () => {
     if (!userAnswer.trim()) {
        onFlip(); 
        return;
     }
 
-    // Helper to remove tones from Pinyin (e.g., "nǐ hǎo" -> "ni hao")
-    const removeTones = (str: string) => {
-      return str.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
-    };
-
-    // Helper to clean text for comparison
-    const normalize = (s: string) => {
-      return s
-        .toLowerCase()
-        .replace(/\([^)]*\)|（[^）]*）/g, '') 
-        .replace(/[.,/#!$%^&*;:{}=\-_`~()]/g," ") // Replace punctuation with space
-        .replace(/\s+/g, ' ') // Collapse spaces
-        .trim();
-    };
-
-    const inputRaw = normalize(userAnswer);
-    const inputNoTones = removeTones(inputRaw);
-    
-    let isCorrect = false;
-
-    if (isZhToFr) {
-      if (guessMode === 'pinyin') {
-         // User is guessing Pinyin for the Hanzi
-         const targetPinyin = normalize(card.pinyin);
-         const targetPinyinNoTones = removeTones(targetPinyin);
-         isCorrect = (inputRaw === targetPinyin || inputNoTones === targetPinyinNoTones);
-      } else {
-         // User is guessing Translation
-         // Split by standard delimiters
-         const possibilities = card.translation.split(/[,;，；\/]/).map(p => normalize(p));
-         
-         // Check each possibility
-         isCorrect = possibilities.some(possibility => {
-            // Exact match
-            if (possibility === inputRaw) return true;
-            
-            // "to run" matches "run"
-            const pNoTo = possibility.replace(/^to /, '');
-            const iNoTo = inputRaw.replace(/^to /, '');
-            if (pNoTo === iNoTo) return true;
-   
-            return false;
-         });
-      }
-    } else {
-      // Showing Translation, expecting Hanzi or Pinyin
-      const targetHanzi = normalize(card.hanzi);
-      const targetPinyin = normalize(card.pinyin);
-      const targetPinyinNoTones = removeTones(targetPinyin);
+    reportResult(checkAnswer(userAnswer, card, answerMode));
+  };
 
-      isCorrect = (
-        inputRaw === targetHanzi || 
-        inputRaw === targetPinyin || 
-        inputNoTones === targetPinyinNoTones ||
-        inputNoTones === targetPinyin // In case DB has non-standard pinyin
-      );
-    }
+  // Typed or handwritten answer graded: notify the parent, show feedback and the answer
+  const reportResult = (result: AnswerResult) => {
+    // A near-miss (typo) still counts as recalled
+    const isCorrect = result !== 'incorrect';
 
     // Notify parent of result (for Streak)
     if (onResult) {
-        onResult(isCorrect);
+        onResult(isCorrect, Date.now() - shownAtRef.current, result);
     }
 
     if (isCorrect) {
-      setFeedback('correct');
+      setFeedback(result);
       // Show answer immediately on correct
       onFlip();
     } else {
@@ -130,15 +118,13 @@ export default function CardDisplay({
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && feedback === 'idle') {
-      checkAnswer();
+      submitAnswer();
     }
   };
 
   const speak = (e: React.MouseEvent) => {
     e.stopPropagation();
-    const utterance = new SpeechSynthesisUtterance(card.hanzi);
-    utterance.lang = 'zh-CN';
-    window.speechSynthesis.speak(utterance);
+    speakWord();
   };
 
   const explain = async (e?: React.MouseEvent) => {
@@ -170,7 +156,8 @@ export default function CardDisplay({
     <div className="w-full max-w-md mx-auto perspective-1000">
       <div className={`bg-white rounded-xl shadow-lg border overflow-hidden flex flex-col relative transition-all 
         ${feedback === 'correct' ? 'border-emerald-500 shadow-emerald-100 animate-success' : ''}
-        ${feedback === 'incorrect' ? 'border-red-500 shadow-red-100 animate-shake' : 'border-gray-200'}
+        ${feedback === 'almost' ? 'border-amber-400 shadow-amber-100' : ''}
+        ${feedback === 'incorrect' ? 'border-red-500 shadow-red-100 animate-shake' : feedback === 'idle' ? 'border-gray-200' : ''}
       `}>
         
         {/* Content Area */}
@@ -190,11 +177,32 @@ export default function CardDisplay({
           {/* Front Content */}
           <div className="space-y-4 w-full" style={{marginTop: '5%', marginBottom: '5%'}}>
             <div className="text-xs uppercase tracking-wider text-gray-400 font-semibold">
-              {isZhToFr ? 'Hanzi' : 'Translation'}
+              {text.front}
             </div>
             
-            <div className={`font-bold text-gray-800 break-words relative inline-block ${isZhToFr ? 'text-5xl font-serif' : 'text-3xl'}`}>
-              {isZhToFr ? card.hanzi : card.translation}
+            <div className={`font-bold text-gray-800 break-words relative inline-block ${
+              direction === 'zh-fr' ? 'text-5xl font-serif' :
+              direction === 'pinyin-zh' ? 'text-4xl text-emerald-700' :
+              direction === 'cloze' ? 'text-2xl font-serif leading-relaxed' : 'text-3xl'
+            }`}>
+              {direction === 'zh-fr' && card.hanzi}
+              {direction === 'fr-zh' && card.translation}
+              {direction === 'pinyin-zh' && card.pinyin}
+              {direction === 'listening' && (
+                <button
+                  onClick={speak}
+                  className="w-24 h-24 rounded-full bg-emerald-50 text-emerald-600 hover:bg-emerald-100 flex items-center justify-center transition-colors"
+                  title="Play again"
+                >
+                  <Volume2 className="w-12 h-12" />
+                </button>
+              )}
+              {direction === 'cloze' && card.example?.split(card.hanzi).map((part, i) => (
+                <span key={i}>
+                  {i > 0 && <span className="text-emerald-600 px-1">{isFlipped ? card.hanzi : '＿＿'}</span>}
+                  {part}
+                </span>
+              ))}
               {feedback === 'correct' && (
                 <span className="absolute -right-8 -top-4 text-emerald-500 animate-success">
                    <svg xmlns="http://www.w3.org/2000/svg" width="32" height="32" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3" strokeLinecap="round" strokeLinejoin="round">
@@ -204,12 +212,25 @@ export default function CardDisplay({
               )}
             </div>
 
-            {/* Handwriting Canvas (Front Side) - Only if settings allow and not doing typing */}
-            {enableHandwriting && !isFlipped && (
+            {/* Handwriting Canvas (Front Side) - Only if settings allow and not doing typing.
+                Stays up after a check so the wrong strokes remain visible */}
+            {enableHandwriting && (!isFlipped || handwritingChecked) && (
               <div className="mt-6 w-full" onClick={(e) => e.stopPropagation()}>
-                <HandwritingCanvas height={200} />
+                <HandwritingCanvas
+                  height={200}
+                  target={card.hanzi}
+                  onResult={r => {
+                    if (handwritingChecked) return;
+                    setHandwritingChecked(true);
+                    reportResult(r.correct ? 'correct' : 'incorrect');
+                  }}
+                />
               </div>
             )}
+
+            {direction === 'cloze' && card.exampleTranslation && (
+              <div className="text-sm text-gray-500">{card.exampleTranslation}</div>
+            )}
           </div>
 
           {/* Back Content (Revealed) */}
@@ -223,9 +244,7 @@ export default function CardDisplay({
               <div>
                 <div className="flex items-center justify-between mb-1 ml-1">
                   <label className="block text-xs text-gray-500 font-bold">
-                    {isZhToFr 
-                      ? (guessMode === 'translation' ? "Answer in French" : "Answer in Pinyin")
-                      : "Answer in Chinese (Hanzi or Pinyin)"}
+                    {isZhToFr && guessMode === 'pinyin' ? "Answer in Pinyin" : text.answer}
                   </label>
                   
                   {isZhToFr && (
@@ -243,26 +262,23 @@ export default function CardDisplay({
                   <input
                     type="text"
                     value={userAnswer}
-                    onChange={(e) => setUserAnswer(e.target.value)}
+                    onChange={(e) => setUserAnswer(answerMode === 'pinyin' || answerMode === 'chinese' ? toneMarkInput(e.target) : e.target.value)}
                     onKeyDown={handleKeyDown}
-                    placeholder={
-                      isZhToFr 
-                        ? (guessMode === 'translation' ? "Type meaning..." : "Type Pinyin...") 
-                        : "Type Hanzi or Pinyin..."
-                    }
+                    placeholder={isZhToFr && guessMode === 'pinyin' ? "Type Pinyin..." : text.placeholder}
                     className="flex-1 px-4 py-3 border border-gray-300 rounded-lg shadow-sm focus:ring-2 focus:ring-emerald-500 focus:border-transparent outline-none"
                     autoFocus
                   />
                 <button
-                  onClick={checkAnswer}
+                  onClick={submitAnswer}
                   disabled={feedback !== 'idle'}
                   className={`px-6 py-3 font-bold rounded-lg shadow-sm transition-colors ${
                     feedback === 'correct' ? 'bg-emerald-500 text-white' :
+                    feedback === 'almost' ? 'bg-amber-500 text-white' :
                     feedback === 'incorrect' ? 'bg-red-500 text-white' :
                     'bg-emerald-600 text-white active:bg-emerald-700'
                   }`}
                 >
-                  {feedback === 'correct' ? 'Nice!' : feedback === 'incorrect' ? 'Oops' : 'Check'}
+                  {feedback === 'correct' ? 'Nice!' : feedback === 'almost' ? 'Almost' : feedback === 'incorrect' ? 'Oops' : 'Check'}
                 </button>
               </div>
             </div>
@@ -278,6 +294,11 @@ export default function CardDisplay({
             <div className="space-y-3 animate-fade-in">
                 {/* Compact Answer Display */}
                 <div className="bg-white p-3 rounded-lg border border-gray-200 text-center shadow-sm">
+                    {feedback === 'almost' && (
+                        <div className="text-xs text-amber-700 bg-amber-50 rounded px-2 py-1 mb-2">
+                            Almost! You typed <span className="font-bold">{userAnswer}</span>
+                        </div>
+                    )}
                     <div className="text-xs uppercase tracking-wider text-gray-400 font-semibold mb-1">
                         Correct Answer
                     </div>
@@ -287,10 +308,17 @@ export default function CardDisplay({
                         <div className="text-base text-emerald-600 font-medium">{card.pinyin}</div>
                         <div className="text-lg text-gray-800 font-bold leading-tight">{card.translation}</div>
                         </>
+                    ) : direction === 'fr-zh' ? (
+                        <>
+                        <div className="text-2xl font-serif text-gray-800">{card.hanzi}</div>
+                        <div className="text-base text-emerald-600 font-medium">{card.pinyin}</div>
+                        </>
                     ) : (
+                        // Listening, pinyin and cloze cards: show the whole word
                         <>
                         <div className="text-2xl font-serif text-gray-800">{card.hanzi}</div>
                         <div className="text-base text-emerald-600 font-medium">{card.pinyin}</div>
+                        <div className="text-sm text-gray-700 font-bold leading-tight">{card.translation}</div>
                         </>
                     )}
 
@@ -320,25 +348,50 @@ export default function CardDisplay({
                         </div>
                         )}
                     </div>
+
+                    {/* Stroke order of the word */}
+                    <div className="mt-2 pt-2 border-t border-gray-50">
+                        {!showStrokes ? (
+                        <button
+                            onClick={(e) => { e.stopPropagation(); setShowStrokes(true); }}
+                            className="text-xs font-bold text-emerald-600 flex items-center gap-1 mx-auto hover:underline"
+                        >
+                            <PenTool className="w-3 h-3" />
+                            Stroke Order
+                        </button>
+                        ) : (
+                        <StrokeOrder text={card.hanzi} />
+                        )}
+                    </div>
                 </div>
 
                 {/* Rating Buttons - Only if showRatingButtons is true */}
                 {showRatingButtons && onRate && (
                   <div className="grid grid-cols-4 gap-2">
-                    <button onClick={() => onRate('again')} className="flex flex-col items-center p-3 rounded active:bg-red-100 bg-white border border-gray-200 sm:border-transparent sm:bg-transparent text-red-700 transition-colors touch-manipulation">
+                    <button onClick={() => onRate('again')} className={`flex flex-col items-center p-3 rounded active:bg-red-100 bg-white border border-gray-200 sm:border-transparent sm:bg-transparent text-red-700 transition-colors touch-manipulation ${suggestedRating === 'again' ? 'ring-2 ring-red-400 sm:bg-red-50' : ''}`}>
                         <span className="font-bold text-sm sm:text-base">Again</span>
+                        {intervals && <span className="text-[10px] opacity-70">{intervals.again}</span>}
                     </button>
-                    <button onClick={() => onRate('hard')} className="flex flex-col items-center p-3 rounded active:bg-orange-100 bg-white border border-gray-200 sm:border-transparent sm:bg-transparent text-orange-700 transition-colors touch-manipulation">
+                    <button onClick={() => onRate('hard')} className={`flex flex-col items-center p-3 rounded active:bg-orange-100 bg-white border border-gray-200 sm:border-transparent sm:bg-transparent text-orange-700 transition-colors touch-manipulation ${suggestedRating === 'hard' ? 'ring-2 ring-orange-400 sm:bg-orange-50' : ''}`}>
                         <span className="font-bold text-sm sm:text-base">Hard</span>
+                        {intervals && <span className="text-[10px] opacity-70">{intervals.hard}</span>}
                     </button>
-                    <button onClick={() => onRate('good')} className="flex flex-col items-center p-3 rounded active:bg-green-100 bg-white border border-gray-200 sm:border-transparent sm:bg-transparent text-green-700 transition-colors touch-manipulation">
+                    <button onClick={() => onRate('good')} className={`flex flex-col items-center p-3 rounded active:bg-green-100 bg-white border border-gray-200 sm:border-transparent sm:bg-transparent text-green-700 transition-colors touch-manipulation ${suggestedRating === 'good' ? 'ring-2 ring-green-400 sm:bg-green-50' : ''}`}>
                         <span className="font-bold text-sm sm:text-base">Good</span>
+                        {intervals && <span className="text-[10px] opacity-70">{intervals.good}</span>}
                     </button>
-                    <button onClick={() => onRate('easy')} className="flex flex-col items-center p-3 rounded active:bg-blue-100 bg-white border border-gray-200 sm:border-transparent sm:bg-transparent text-blue-700 transition-colors touch-manipulation">
+                    <button onClick={() => onRate('easy')} className={`flex flex-col items-center p-3 rounded active:bg-blue-100 bg-white border border-gray-200 sm:border-transparent sm:bg-transparent text-blue-700 transition-colors touch-manipulation ${suggestedRating === 'easy' ? 'ring-2 ring-blue-400 sm:bg-blue-50' : ''}`}>
                         <span className="font-bold text-sm sm:text-base">Easy</span>
+                        {intervals && <span className="text-[10px] opacity-70">{intervals.easy}</span>}
                     </button>
                   </div>
                 )}
+
+                {showRatingButtons && onRate && suggestedRating && (
+                  <p className="text-center text-[10px] text-gray-400">
+                    Suggested from your answer and speed: <span className="font-bold capitalize">{suggestedRating}</span> (Enter to accept)
+                  </p>
+                )}
                 
                 {onHideAnswer && (
                     <button 
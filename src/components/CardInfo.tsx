@@ -0,0 +1,189 @@
+import { useMemo, useState } from 'react';
+import { X, History, Activity, GraduationCap } from 'lucide-react';
+import { Card, CardKind, ReviewRating } from '../types';
+import { storage } from '../utils/storage';
+import { fsrs, formatTime, getRetention } from '../utils/fsrs';
+import { forgettingCurve } from '../utils/fsrsModel';
+import { CARD_KINDS, CARD_KIND_LABELS, getSchedule } from '../utils/siblings';
+
+interface CardInfoProps {
+  card: Card;
+  onClose: () => void;
+}
+
+const RATING_STYLES: Record<ReviewRating, string> = {
+  again: 'text-red-700 bg-red-50',
+  hard: 'text-orange-700 bg-orange-50',
+  good: 'text-green-700 bg-green-50',
+  easy: 'text-blue-700 bg-blue-50'
+};
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const WIDTH = 300;
+const HEIGHT = 100;
+
+// SVG polyline points for values scaled into the chart box
+const toPoints = (values: { x: number; y: number }[], maxX: number, minY: number, maxY: number) =>
+  values.map(v => `${(v.x / (maxX || 1)) * WIDTH},${HEIGHT - ((v.y - minY) / ((maxY - minY) || 1)) * HEIGHT}`).join(' ');
+
+/**
+ * Card info panel: the review history of one card kind of a word, how its stability
+ * and difficulty evolved, and its forgetting curve until the next due date.
+ */
+export default function CardInfo({ card, onClose }: CardInfoProps) {
+  const allLogs = useMemo(() => storage.getReviewLogsForCard(card.id), [card.id]);
+  // Kinds with a schedule or a history; zh-fr is always listed
+  const kinds = CARD_KINDS.filter(k => k === 'zh-fr' || card.siblings?.[k] || allLogs.some(l => l.direction === k));
+  const [kind, setKind] = useState<CardKind>('zh-fr');
+
+  const schedule = getSchedule(card, kind);
+  const logs = allLogs.filter(l => l.direction === kind);
+  const now = new Date();
+  const recall = fsrs.retrievability(schedule, now);
+  const retention = getRetention();
+
+  // Memory state after each review
+  const states = logs.map((l, i) => ({ x: i, stability: l.stabilityAfter, difficulty: l.difficultyAfter }));
+  const maxStability = Math.max(1, ...states.map(s => s.stability));
+
+  // Forgetting curve from the last review until a bit past the due date (recomputed with
+  // `now` on every render, like the recall figure)
+  const curve = (() => {
+    if (schedule.srsState === 'new' || !schedule.srsLastReview || !(schedule.srsStability > 0)) return null;
+    const last = new Date(schedule.srsLastReview).getTime();
+    const dueDays = Math.max(0, (new Date(schedule.srsDue).getTime() - last) / DAY_MS);
+    const nowDays = Math.max(0, (now.getTime() - last) / DAY_MS);
+    const span = Math.max(dueDays, nowDays, 1) * 1.25;
+    const points = Array.from({ length: 41 }, (_, i) => {
+      const t = (span * i) / 40;
+      return { x: t, y: forgettingCurve(t, schedule.srsStability) };
+    });
+    return { points, span, dueDays, nowDays };
+  })();
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex justify-end" onClick={onClose}>
+      <div className="w-full max-w-md bg-white h-full shadow-2xl p-6 overflow-y-auto space-y-5" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-start">
+          <div>
+            <div className="flex items-baseline gap-3">
+              <h3 className="text-2xl font-bold text-gray-800">{card.hanzi}</h3>
+              <span className="text-gray-500 font-medium">{card.pinyin}</span>
+            </div>
+            <p className="text-sm text-gray-600">{card.translation}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {kinds.length > 1 && (
+          <div className="flex flex-wrap gap-2">
+            {kinds.map(k => (
+              <button
+                key={k}
+                onClick={() => setKind(k)}
+                className={`px-3 py-1 rounded-full text-xs font-bold transition-colors ${kind === k ? 'bg-emerald-600 text-white' : 'bg-gray-100 text-gray-500 hover:bg-gray-200'}`}
+              >
+                {CARD_KIND_LABELS[k]}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Current state */}
+        <div className="grid grid-cols-4 gap-2 text-center">
+          <div className="bg-gray-50 p-2 rounded-lg">
+            <div className="text-lg font-bold text-gray-800">{logs.length}</div>
+            <div className="text-[10px] text-gray-500 uppercase">Reviews</div>
+          </div>
+          <div className="bg-gray-50 p-2 rounded-lg">
+            <div className="text-lg font-bold text-gray-800">{schedule.srsLapses || 0}</div>
+            <div className="text-[10px] text-gray-500 uppercase">Lapses</div>
+          </div>
+          <div className="bg-gray-50 p-2 rounded-lg">
+            <div className="text-lg font-bold text-indigo-600">{schedule.srsState === 'new' ? '-' : formatTime(schedule.srsStability * 24 * 60)}</div>
+            <div className="text-[10px] text-gray-500 uppercase">Stability</div>
+          </div>
+          <div className="bg-gray-50 p-2 rounded-lg">
+            <div className="text-lg font-bold text-emerald-600">{recall === null ? '-' : `${Math.round(recall * 100)}%`}</div>
+            <div className="text-[10px] text-gray-500 uppercase">Recall</div>
+          </div>
+        </div>
+
+        {/* Forgetting curve */}
+        {curve && (
+          <div className="space-y-1">
+            <h4 className="text-xs font-bold text-gray-400 uppercase flex items-center gap-1">
+              <Activity className="w-3 h-3" /> Memory Curve
+            </h4>
+            <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-28 bg-gray-50 rounded" preserveAspectRatio="none">
+              {/* Desired retention */}
+              <line x1={0} x2={WIDTH} y1={HEIGHT * (1 - retention)} y2={HEIGHT * (1 - retention)} stroke="#d1d5db" strokeDasharray="4 3" />
+              <polyline points={toPoints(curve.points, curve.span, 0, 1)} fill="none" stroke="#10b981" strokeWidth={2} />
+              <line x1={(curve.nowDays / curve.span) * WIDTH} x2={(curve.nowDays / curve.span) * WIDTH} y1={0} y2={HEIGHT} stroke="#6366f1" strokeWidth={1.5} />
+              <line x1={(curve.dueDays / curve.span) * WIDTH} x2={(curve.dueDays / curve.span) * WIDTH} y1={0} y2={HEIGHT} stroke="#f59e0b" strokeDasharray="4 3" />
+            </svg>
+            <div className="flex justify-between text-[10px] text-gray-400">
+              <span>Last review</span>
+              <span><span className="text-indigo-500">| now</span> · <span className="text-amber-500">| due</span> · -- {Math.round(retention * 100)}% target</span>
+              <span>+{formatTime(curve.span * 24 * 60)}</span>
+            </div>
+          </div>
+        )}
+
+        {/* Stability & difficulty over time */}
+        {states.length > 1 && (
+          <div className="space-y-1">
+            <h4 className="text-xs font-bold text-gray-400 uppercase flex items-center gap-1">
+              <GraduationCap className="w-3 h-3" /> Stability & Difficulty
+            </h4>
+            <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-28 bg-gray-50 rounded" preserveAspectRatio="none">
+              <polyline points={toPoints(states.map(s => ({ x: s.x, y: s.stability })), states.length - 1, 0, maxStability)} fill="none" stroke="#6366f1" strokeWidth={2} />
+              <polyline points={toPoints(states.map(s => ({ x: s.x, y: s.difficulty })), states.length - 1, 1, 10)} fill="none" stroke="#f97316" strokeWidth={2} />
+            </svg>
+            <div className="flex justify-between text-[10px] text-gray-400">
+              <span className="text-indigo-500">Stability (max {formatTime(maxStability * 24 * 60)})</span>
+              <span className="text-orange-500">Difficulty (1-10)</span>
+            </div>
+          </div>
+        )}
+
+        {/* Review history */}
+        <div className="space-y-2">
+          <h4 className="text-xs font-bold text-gray-400 uppercase flex items-center gap-1">
+            <History className="w-3 h-3" /> History
+          </h4>
+          {logs.length === 0 ? (
+            <p className="text-sm text-gray-400">Not reviewed yet.</p>
+          ) : (
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-gray-400 text-left">
+                  <th className="font-medium pb-1">Date</th>
+                  <th className="font-medium pb-1">Rating</th>
+                  <th className="font-medium pb-1 text-right">Interval</th>
+                  <th className="font-medium pb-1 text-right">Time</th>
+                </tr>
+              </thead>
+              <tbody>
+                {[...logs].reverse().map(l => (
+                  <tr key={l.id} className="border-t border-gray-100">
+                    <td className="py-1 text-gray-600">
+                      {new Date(l.timestamp).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: '2-digit' })}
+                    </td>
+                    <td className="py-1">
+                      <span className={`px-1.5 py-0.5 rounded font-bold capitalize ${RATING_STYLES[l.rating]}`}>{l.rating}</span>
+                    </td>
+                    <td className="py-1 text-right text-gray-600">{formatTime(l.scheduledDays * 24 * 60)}</td>
+                    <td className="py-1 text-right text-gray-500">{(l.duration / 1000).toFixed(1)}s</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
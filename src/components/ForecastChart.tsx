@@ -0,0 +1,134 @@
+import { useMemo, useState } from 'react';
+import { Card } from '../types';
+import { storage } from '../utils/storage';
+import { getRetention, getWeights } from '../utils/fsrs';
+import { getDayKey, getDayStart, getRolloverHour } from '../utils/day';
+import { getKindsForDirection, getReviewItems } from '../utils/siblings';
+import { estimateReviewCosts, simulate } from '../utils/simulator';
+import { getSettings } from '../pages/Settings';
+
+interface ForecastDay {
+  date: Date;
+  scheduled: Card[]; // Cards already due that day (overdue cards count for today)
+  projected: number; // Extra reviews expected from new cards and lapses
+  newCards: number;
+}
+
+const CHART_HEIGHT = 120;
+
+/**
+ * Upcoming daily workload: reviews already scheduled plus what the FSRS simulation
+ * expects on top (new-card quota, relearning after lapses, cards coming due again).
+ */
+export default function ForecastChart() {
+  const [days, setDays] = useState(30);
+  const [selected, setSelected] = useState<number | null>(null);
+
+  const forecast = useMemo<ForecastDay[]>(() => {
+    const settings = getSettings();
+    const start = getDayStart();
+    const cards = getReviewItems(storage.getCards().filter(c => !c.suspended), getKindsForDirection(settings.reviewDirection))
+      .map(i => i.card);
+
+    const simulation = simulate(cards, {
+      weights: getWeights(),
+      retention: getRetention(),
+      days,
+      newCardsPerDay: settings.newCardsPerDay,
+      costs: estimateReviewCosts(storage.getReviewLogs()),
+      startDate: start
+    });
+
+    const result: ForecastDay[] = simulation.daily.map((sim, i) => {
+      const date = new Date(start);
+      date.setDate(start.getDate() + i);
+      return { date, scheduled: [], projected: sim.reviews, newCards: sim.newCards };
+    });
+
+    const rolloverHour = getRolloverHour();
+    const indexByKey = new Map(result.map((d, i) => [getDayKey(d.date, rolloverHour), i]));
+    cards.forEach(c => {
+      if (c.srsState === 'new' || !c.srsDue) return;
+      const due = new Date(c.srsDue);
+      if (isNaN(due.getTime())) return;
+      const index = due < start ? 0 : indexByKey.get(getDayKey(due, rolloverHour));
+      if (index !== undefined) result[index].scheduled.push(c);
+    });
+
+    // The simulated reviews include the scheduled ones: keep only the surplus
+    result.forEach(d => { d.projected = Math.max(0, d.projected - d.scheduled.length); });
+    return result;
+  }, [days]);
+
+  const maxDaily = Math.max(1, ...forecast.map(d => d.scheduled.length + d.projected + d.newCards));
+  const selectedDay = selected !== null ? forecast[selected] : null;
+  const barWidth = 100 / forecast.length;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3 text-[10px] text-gray-500">
+          <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-emerald-500" /> Scheduled</span>
+          <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-emerald-200" /> Projected</span>
+          <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-blue-300" /> New</span>
+        </div>
+        <select
+          value={days}
+          onChange={e => { setDays(parseInt(e.target.value)); setSelected(null); }}
+          className="text-xs bg-white border border-gray-200 rounded px-1 py-0.5"
+        >
+          <option value={30}>30 days</option>
+          <option value={90}>90 days</option>
+        </select>
+      </div>
+
+      <svg viewBox={`0 0 100 ${CHART_HEIGHT}`} className="w-full h-32" preserveAspectRatio="none">
+        {forecast.map((d, i) => {
+          const x = i * barWidth;
+          const scale = CHART_HEIGHT / maxDaily;
+          const scheduledHeight = d.scheduled.length * scale;
+          const projectedHeight = d.projected * scale;
+          const newHeight = d.newCards * scale;
+          return (
+            <g key={i} onClick={() => setSelected(selected === i ? null : i)} className="cursor-pointer">
+              {/* Full-height hit area so small bars are easy to tap */}
+              <rect x={x} y={0} width={barWidth} height={CHART_HEIGHT} fill={selected === i ? '#f3f4f6' : 'transparent'} />
+              <rect x={x + barWidth * 0.1} y={CHART_HEIGHT - scheduledHeight} width={barWidth * 0.8} height={scheduledHeight} fill="#10b981" />
+              <rect x={x + barWidth * 0.1} y={CHART_HEIGHT - scheduledHeight - projectedHeight} width={barWidth * 0.8} height={projectedHeight} fill="#a7f3d0" />
+              <rect x={x + barWidth * 0.1} y={CHART_HEIGHT - scheduledHeight - projectedHeight - newHeight} width={barWidth * 0.8} height={newHeight} fill="#93c5fd" />
+            </g>
+          );
+        })}
+      </svg>
+      <div className="flex justify-between text-[10px] text-gray-400">
+        <span>Today</span>
+        <span>Max {Math.round(maxDaily)} cards/day</span>
+        <span>+{days - 1}d</span>
+      </div>
+
+      {selectedDay && (
+        <div className="bg-gray-50 rounded-lg p-3 border border-gray-100 space-y-2">
+          <div className="flex justify-between text-xs">
+            <span className="font-bold text-gray-700">
+              {selected === 0 ? 'Today' : selectedDay.date.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })}
+            </span>
+            <span className="text-gray-500">
+              {selectedDay.scheduled.length} scheduled · ~{Math.round(selectedDay.projected)} projected · {selectedDay.newCards} new
+            </span>
+          </div>
+          {selectedDay.scheduled.length > 0 ? (
+            <div className="flex flex-wrap gap-1 max-h-32 overflow-y-auto">
+              {selectedDay.scheduled.map((c, i) => (
+                <span key={`${c.id}-${i}`} className="text-sm bg-white border border-gray-200 rounded px-2 py-0.5" title={c.translation}>
+                  {c.hanzi}
+                </span>
+              ))}
+            </div>
+          ) : (
+            <p className="text-xs text-gray-400">No cards scheduled yet for this day.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,22 +1,36 @@
 import { useRef, useEffect, useState } from 'react';
-import { Eraser } from 'lucide-react';
+import { Eraser, CheckCheck } from 'lucide-react';
+import { HandwritingResult, Stroke, checkHandwriting } from '../utils/handwriting';
 
 interface HandwritingCanvasProps {
   width?: string | number;
   height?: number;
   strokeColor?: string;
   strokeWidth?: number;
+  target?: string; // Word to grade the drawing against (shows a Check button)
+  onResult?: (result: HandwritingResult) => void;
 }
 
+const RIGHT_COLOR = '#10b981';
+const WRONG_COLOR = '#ef4444';
+
 export default function HandwritingCanvas({
   // width = '100%', // Removed unused width
   height = 300,
   strokeColor = '#374151',
   strokeWidth = 4,
+  target,
+  onResult,
 }: HandwritingCanvasProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [isDrawing, setIsDrawing] = useState(false);
   const contextRef = useRef<CanvasRenderingContext2D | null>(null);
+  const strokesRef = useRef<Stroke[]>([]); // Every stroke drawn, in order
+  const [result, setResult] = useState<HandwritingResult | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  const cells = target ? Array.from(target.trim()).length : 1;
 
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -25,10 +39,10 @@ export default function HandwritingCanvas({
     // Handle high-DPI screens
     const dpr = window.devicePixelRatio || 1;
     const rect = canvas.getBoundingClientRect();
-    
+
     canvas.width = rect.width * dpr;
     canvas.height = height * dpr;
-    
+
     const ctx = canvas.getContext('2d');
     if (ctx) {
       ctx.scale(dpr, dpr);
@@ -38,15 +52,37 @@ export default function HandwritingCanvas({
       ctx.lineWidth = strokeWidth;
       contextRef.current = ctx;
     }
-    
+
     // Maintain visual size
     canvas.style.width = `${rect.width}px`;
     canvas.style.height = `${height}px`;
 
   }, [height, strokeColor, strokeWidth]);
 
+  // Repaints every stroke, coloured right/wrong after a check
+  const redraw = (marks: boolean[] | null) => {
+    const canvas = canvasRef.current;
+    const ctx = contextRef.current;
+    if (!canvas || !ctx) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    strokesRef.current.forEach((stroke, i) => {
+      ctx.strokeStyle = marks ? (marks[i] ? RIGHT_COLOR : WRONG_COLOR) : strokeColor;
+      ctx.beginPath();
+      stroke.forEach((p, j) => (j === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+      ctx.stroke();
+    });
+    ctx.strokeStyle = strokeColor;
+  };
+
   const startDrawing = ({ nativeEvent }: { nativeEvent: MouseEvent | TouchEvent }) => {
     const { offsetX, offsetY } = getCoordinates(nativeEvent);
+    // Drawing again after a check: back to plain strokes
+    if (result) {
+      setResult(null);
+      redraw(null);
+    }
+    setMessage(null);
+    strokesRef.current.push([{ x: offsetX, y: offsetY }]);
     contextRef.current?.beginPath();
     contextRef.current?.moveTo(offsetX, offsetY);
     setIsDrawing(true);
@@ -60,6 +96,7 @@ export default function HandwritingCanvas({
   const draw = ({ nativeEvent }: { nativeEvent: MouseEvent | TouchEvent }) => {
     if (!isDrawing) return;
     const { offsetX, offsetY } = getCoordinates(nativeEvent);
+    strokesRef.current[strokesRef.current.length - 1]?.push({ x: offsetX, y: offsetY });
     contextRef.current?.lineTo(offsetX, offsetY);
     contextRef.current?.stroke();
   };
@@ -88,35 +125,100 @@ export default function HandwritingCanvas({
     if (canvas && contextRef.current) {
       contextRef.current.clearRect(0, 0, canvas.width, canvas.height);
     }
+    strokesRef.current = [];
+    setResult(null);
+    setMessage(null);
+  };
+
+  const check = async () => {
+    const canvas = canvasRef.current;
+    if (!target || !canvas || isChecking) return;
+    setIsChecking(true);
+    const rect = canvas.getBoundingClientRect();
+    let graded: HandwritingResult | null;
+    try {
+      graded = await checkHandwriting(target, strokesRef.current, rect.width, rect.height);
+    } catch (e) {
+      console.error('Failed to load stroke data', e);
+      setMessage('Could not load stroke data. Check your connection.');
+      return;
+    } finally {
+      setIsChecking(false);
+    }
+    if (!graded) {
+      setMessage(strokesRef.current.length === 0 ? 'Write the word first.' : 'No stroke data for this word.');
+      return;
+    }
+    setResult(graded);
+    redraw(graded.strokeMarks);
+    if (onResult) onResult(graded);
   };
 
   return (
-    <div className="relative w-full border-2 border-dashed border-gray-300 rounded-lg bg-gray-50 touch-none">
-      <div className="absolute top-2 right-2 z-10">
-        <button
-          onClick={(e) => { e.stopPropagation(); clearCanvas(); }}
-          className="p-2 bg-white text-gray-600 rounded shadow-sm hover:bg-gray-100 transition-colors"
-          title="Clear"
-        >
-          <Eraser className="w-4 h-4" />
-        </button>
-      </div>
-      <canvas
-        ref={canvasRef}
-        onMouseDown={startDrawing}
-        onMouseUp={finishDrawing}
-        onMouseLeave={finishDrawing}
-        onMouseMove={draw}
-        onTouchStart={startDrawing}
-        onTouchEnd={finishDrawing}
-        onTouchMove={draw}
-        className="block cursor-crosshair"
-        style={{ width: '100%', height: `${height}px` }}
-      />
-      <div className="absolute bottom-2 left-0 right-0 text-center text-xs text-gray-400 pointer-events-none select-none">
-        Draw Hanzi Here
+    <div className="space-y-2">
+      <div className="relative w-full border-2 border-dashed border-gray-300 rounded-lg bg-gray-50 touch-none">
+        <div className="absolute top-2 right-2 z-10 flex gap-1">
+          {target && (
+            <button
+              onClick={(e) => { e.stopPropagation(); check(); }}
+              disabled={isChecking}
+              className="p-2 bg-white text-emerald-600 rounded shadow-sm hover:bg-emerald-50 transition-colors disabled:opacity-50"
+              title="Check my writing"
+            >
+              <CheckCheck className="w-4 h-4" />
+            </button>
+          )}
+          <button
+            onClick={(e) => { e.stopPropagation(); clearCanvas(); }}
+            className="p-2 bg-white text-gray-600 rounded shadow-sm hover:bg-gray-100 transition-colors"
+            title="Clear"
+          >
+            <Eraser className="w-4 h-4" />
+          </button>
+        </div>
+        {/* One cell per character: strokes are graded by the cell they are in */}
+        {Array.from({ length: cells - 1 }, (_, i) => (
+          <div
+            key={i}
+            className="absolute top-0 bottom-0 border-l border-dashed border-gray-200 pointer-events-none"
+            style={{ left: `${((i + 1) / cells) * 100}%` }}
+          />
+        ))}
+        <canvas
+          ref={canvasRef}
+          onMouseDown={startDrawing}
+          onMouseUp={finishDrawing}
+          onMouseLeave={finishDrawing}
+          onMouseMove={draw}
+          onTouchStart={startDrawing}
+          onTouchEnd={finishDrawing}
+          onTouchMove={draw}
+          className="block cursor-crosshair"
+          style={{ width: '100%', height: `${height}px` }}
+        />
+        <div className="absolute bottom-2 left-0 right-0 text-center text-xs text-gray-400 pointer-events-none select-none">
+          {cells > 1 ? 'One character per box' : 'Draw Hanzi Here'}
+        </div>
       </div>
+
+      {message && <p className="text-xs text-gray-500 text-center">{message}</p>}
+
+      {result && (
+        <div className="flex flex-wrap justify-center gap-2 text-xs">
+          {result.characters.map((c, i) => (
+            <span
+              key={i}
+              className={`px-2 py-1 rounded font-medium ${c.correct ? 'bg-emerald-50 text-emerald-700' : 'bg-red-50 text-red-700'}`}
+              title={`${c.drawn} of ${c.expected} strokes`}
+            >
+              {c.char} {Math.round(c.score * 100)}%
+              {c.drawn !== c.expected && ` · ${c.drawn}/${c.expected} strokes`}
+              {c.strokes.some(s => s.issue === 'order') && ' · order'}
+              {c.strokes.some(s => s.issue === 'direction') && ' · direction'}
+            </span>
+          ))}
+        </div>
+      )}
     </div>
   );
 }
-
@@ -0,0 +1,122 @@
+import { RotateCcw, Target, Timer, XCircle } from 'lucide-react';
+import { Card, CardKind, ReviewRating } from '../types';
+
+// One rating given during a Review session
+export interface SessionResult {
+  card: Card;
+  kind: CardKind;
+  rating: ReviewRating;
+  duration: number; // Response time in milliseconds
+}
+
+interface SessionSummaryProps {
+  results: SessionResult[];
+  onDrill?: () => void; // Re-drill the cards rated Again
+}
+
+const RATINGS: { rating: ReviewRating; label: string; color: string }[] = [
+  { rating: 'again', label: 'Again', color: 'bg-red-500' },
+  { rating: 'hard', label: 'Hard', color: 'bg-orange-400' },
+  { rating: 'good', label: 'Good', color: 'bg-blue-500' },
+  { rating: 'easy', label: 'Easy', color: 'bg-emerald-500' }
+];
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+/**
+ * Cards rated Again during the session, one entry per word and kind.
+ */
+export function getFailedResults(results: SessionResult[]): SessionResult[] {
+  const seen = new Set<string>();
+  return results.filter(r => {
+    const key = `${r.card.id}:${r.kind}`;
+    if (r.rating !== 'again' || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+export default function SessionSummary({ results, onDrill }: SessionSummaryProps) {
+  if (results.length === 0) return null;
+
+  const counts = RATINGS.map(r => results.filter(x => x.rating === r.rating).length);
+  const accuracy = (results.length - counts[0]) / results.length;
+  const averageMs = results.reduce((sum, r) => sum + r.duration, 0) / results.length;
+  const slowest = results.reduce((a, b) => (b.duration > a.duration ? b : a));
+  const failed = getFailedResults(results);
+
+  return (
+    <div className="bg-white rounded-xl p-6 border border-gray-100 shadow-sm space-y-4 text-left">
+      <h3 className="text-sm font-bold text-gray-400 uppercase tracking-wider text-center">This Session</h3>
+
+      <div className="grid grid-cols-3 gap-2 text-center">
+        <div className="bg-gray-50 p-2 rounded-lg">
+          <div className="text-xl font-bold text-gray-800">{results.length}</div>
+          <div className="text-[10px] text-gray-500 uppercase">Reviews</div>
+        </div>
+        <div className="bg-gray-50 p-2 rounded-lg">
+          <div className="text-xl font-bold text-emerald-600 flex items-center justify-center gap-1">
+            <Target className="w-4 h-4" />
+            {Math.round(accuracy * 100)}%
+          </div>
+          <div className="text-[10px] text-gray-500 uppercase">Accuracy</div>
+        </div>
+        <div className="bg-gray-50 p-2 rounded-lg">
+          <div className="text-xl font-bold text-indigo-600 flex items-center justify-center gap-1">
+            <Timer className="w-4 h-4" />
+            {formatSeconds(averageMs)}
+          </div>
+          <div className="text-[10px] text-gray-500 uppercase">Avg Time</div>
+        </div>
+      </div>
+
+      {/* Ratings distribution */}
+      <div className="space-y-1">
+        <div className="flex h-3 rounded-full overflow-hidden bg-gray-100">
+          {RATINGS.map((r, i) => counts[i] > 0 && (
+            <div key={r.rating} className={r.color} style={{ width: `${(counts[i] / results.length) * 100}%` }} />
+          ))}
+        </div>
+        <div className="flex justify-between text-[10px] text-gray-500">
+          {RATINGS.map((r, i) => (
+            <span key={r.rating} className="flex items-center gap-1">
+              <span className={`w-2 h-2 rounded-full ${r.color}`} />
+              {r.label} {counts[i]}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Slowest: <span className="font-bold text-gray-700">{slowest.card.hanzi}</span> ({formatSeconds(slowest.duration)})
+      </p>
+
+      {failed.length > 0 && (
+        <div className="space-y-2 pt-2 border-t border-gray-100">
+          <h4 className="text-xs font-bold text-red-600 uppercase flex items-center gap-1">
+            <XCircle className="w-3 h-3" />
+            Rated Again ({failed.length})
+          </h4>
+          <div className="max-h-40 overflow-y-auto space-y-1">
+            {failed.map(r => (
+              <div key={`${r.card.id}:${r.kind}`} className="flex justify-between items-center text-sm bg-red-50 rounded px-2 py-1">
+                <span className="font-bold text-gray-800">{r.card.hanzi} <span className="font-normal text-gray-500">{r.card.pinyin}</span></span>
+                <span className="text-xs text-gray-500 truncate ml-2">{r.card.translation}</span>
+              </div>
+            ))}
+          </div>
+          {onDrill && (
+            <button
+              onClick={onDrill}
+              className="w-full py-2 bg-red-100 text-red-700 font-bold rounded-lg hover:bg-red-200 transition-colors flex items-center justify-center gap-2"
+            >
+              <RotateCcw className="w-4 h-4" />
+              Drill Failed Cards Again
+            </button>
+          )}
+          <p className="text-[10px] text-gray-400 text-center">Drilling doesn't change their schedule.</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,323 @@
+import { useEffect, useId, useRef, useState } from 'react';
+import { Play, Pause, SkipBack, SkipForward, RotateCcw, PenLine, Eye } from 'lucide-react';
+import {
+  CHARACTER_TRANSFORM, CharacterStrokes, DATA_BOX, Stroke, compareStroke, getMedians, loadStrokeData, medianPath
+} from '../utils/handwriting';
+
+const ANIMATION_MS = 500;   // Drawing one stroke
+const STROKE_PAUSE_MS = 250; // Between strokes while playing
+const HINT_AFTER = 1;       // Misses before the stroke to draw is highlighted
+const REVEAL_AFTER = 3;     // Misses before the stroke is drawn for you
+
+const OUTLINE_COLOR = '#e5e7eb';
+const DONE_COLOR = '#1f2937';
+const ACTIVE_COLOR = '#10b981';
+
+/**
+ * Stroke order of each character of a word: an animation to watch or step through,
+ * and a guided quiz that asks for one stroke at a time.
+ */
+export default function StrokeOrder({ text }: { text: string }) {
+  const chars = Array.from(text.trim());
+  const [index, setIndex] = useState(0);
+  const [mode, setMode] = useState<'watch' | 'practice'>('watch');
+  const [data, setData] = useState<CharacterStrokes | null | undefined>(undefined); // undefined = loading
+  const [failed, setFailed] = useState(false);
+  const char = chars[index];
+
+  useEffect(() => {
+    let cancelled = false;
+    setData(undefined);
+    setFailed(false);
+    loadStrokeData(char)
+      .then(d => { if (!cancelled) setData(d); })
+      .catch(e => {
+        console.error(`Failed to load stroke data for ${char}`, e);
+        if (!cancelled) {
+          setFailed(true);
+          setData(null);
+        }
+      });
+    return () => { cancelled = true; };
+  }, [char]);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex flex-wrap gap-1">
+          {chars.length > 1 && chars.map((c, i) => (
+            <button
+              key={i}
+              onClick={() => setIndex(i)}
+              className={`w-8 h-8 rounded font-serif text-lg transition-colors ${i === index ? 'bg-emerald-600 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`}
+            >
+              {c}
+            </button>
+          ))}
+        </div>
+        <div className="flex bg-gray-100 rounded-lg p-0.5 text-xs font-bold">
+          <button
+            onClick={() => setMode('watch')}
+            className={`px-2 py-1 rounded-md flex items-center gap-1 ${mode === 'watch' ? 'bg-white text-emerald-700 shadow-sm' : 'text-gray-500'}`}
+          >
+            <Eye className="w-3 h-3" /> Watch
+          </button>
+          <button
+            onClick={() => setMode('practice')}
+            className={`px-2 py-1 rounded-md flex items-center gap-1 ${mode === 'practice' ? 'bg-white text-emerald-700 shadow-sm' : 'text-gray-500'}`}
+          >
+            <PenLine className="w-3 h-3" /> Practice
+          </button>
+        </div>
+      </div>
+
+      {data === undefined ? (
+        <p className="text-xs text-gray-400 text-center py-8">Loading strokes...</p>
+      ) : data === null ? (
+        <p className="text-xs text-gray-400 text-center py-8">
+          {failed ? 'Could not load stroke data. Check your connection.' : `No stroke data for ${char}.`}
+        </p>
+      ) : mode === 'watch' ? (
+        <StrokeAnimation key={`${text}-${index}`} data={data} />
+      ) : (
+        <WritingQuiz key={`${text}-${index}`} data={data} />
+      )}
+    </div>
+  );
+}
+
+// Practice grid (米字格) behind the character
+function CharacterGrid() {
+  return (
+    <g stroke="#e5e7eb" strokeWidth={4} strokeDasharray="16 16">
+      <line x1={0} y1={0} x2={DATA_BOX} y2={DATA_BOX} />
+      <line x1={DATA_BOX} y1={0} x2={0} y2={DATA_BOX} />
+      <line x1={DATA_BOX / 2} y1={0} x2={DATA_BOX / 2} y2={DATA_BOX} />
+      <line x1={0} y1={DATA_BOX / 2} x2={DATA_BOX} y2={DATA_BOX / 2} />
+    </g>
+  );
+}
+
+// One stroke drawn along its median, clipped to its outline (data coordinates)
+function AnimatedStroke({ outline, median, color = ACTIVE_COLOR }: { outline: string; median: number[][]; color?: string }) {
+  const clipId = `clip${useId().replace(/:/g, '')}`;
+  const animationRef = useRef<SVGAnimateElement>(null);
+  const { d, length } = medianPath(median);
+
+  // SVG animations are timed from when the <svg> appeared: start this one when the stroke does
+  useEffect(() => {
+    animationRef.current?.beginElement();
+  }, []);
+
+  return (
+    <g>
+      <clipPath id={clipId}>
+        <path d={outline} />
+      </clipPath>
+      <path
+        d={d}
+        fill="none"
+        stroke={color}
+        strokeWidth={200}
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        strokeDasharray={length}
+        strokeDashoffset={length}
+        clipPath={`url(#${clipId})`}
+      >
+        <animate
+          ref={animationRef}
+          attributeName="stroke-dashoffset"
+          from={length}
+          to={0}
+          begin="indefinite"
+          dur={`${ANIMATION_MS}ms`}
+          fill="freeze"
+        />
+      </path>
+    </g>
+  );
+}
+
+function StrokeAnimation({ data }: { data: CharacterStrokes }) {
+  const total = data.strokes.length;
+  const [step, setStep] = useState(0); // Strokes drawn; the last one is animated
+  const [playing, setPlaying] = useState(false);
+
+  // While playing, add a stroke once the previous one is drawn
+  useEffect(() => {
+    if (!playing) return;
+    if (step >= total) {
+      setPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setStep(s => s + 1), step === 0 ? 0 : ANIMATION_MS + STROKE_PAUSE_MS);
+    return () => clearTimeout(timer);
+  }, [playing, step, total]);
+
+  const togglePlay = () => {
+    if (playing) {
+      setPlaying(false);
+      return;
+    }
+    if (step >= total) setStep(0);
+    setPlaying(true);
+  };
+
+  const stepTo = (next: number) => {
+    setPlaying(false);
+    setStep(Math.max(0, Math.min(total, next)));
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <svg viewBox={`0 0 ${DATA_BOX} ${DATA_BOX}`} className="w-40 h-40 bg-white border border-gray-200 rounded-lg">
+        <CharacterGrid />
+        <g transform={CHARACTER_TRANSFORM}>
+          {data.strokes.map((outline, i) => (
+            <path key={i} d={outline} fill={i < step - 1 ? DONE_COLOR : OUTLINE_COLOR} />
+          ))}
+          {step > 0 && (
+            <AnimatedStroke key={step} outline={data.strokes[step - 1]} median={data.medians[step - 1]} />
+          )}
+        </g>
+      </svg>
+
+      <div className="flex items-center gap-1">
+        <button onClick={() => stepTo(step - 1)} disabled={step === 0} className="p-2 text-gray-500 hover:bg-gray-100 rounded-lg disabled:opacity-30" title="Previous stroke">
+          <SkipBack className="w-4 h-4" />
+        </button>
+        <button onClick={togglePlay} className="p-2 text-emerald-600 hover:bg-emerald-50 rounded-lg" title={playing ? 'Pause' : 'Play'}>
+          {playing ? <Pause className="w-5 h-5" /> : <Play className="w-5 h-5" />}
+        </button>
+        <button onClick={() => stepTo(step + 1)} disabled={step >= total} className="p-2 text-gray-500 hover:bg-gray-100 rounded-lg disabled:opacity-30" title="Next stroke">
+          <SkipForward className="w-4 h-4" />
+        </button>
+        <span className="text-xs text-gray-400 w-16 text-center">{step} / {total}</span>
+      </div>
+    </div>
+  );
+}
+
+function WritingQuiz({ data }: { data: CharacterStrokes }) {
+  const total = data.strokes.length;
+  const medians = useRef(getMedians(data)).current; // Screen orientation, like the drawn points
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [current, setCurrent] = useState(0); // Stroke to draw next
+  const [misses, setMisses] = useState(0);   // Misses on the current stroke
+  const [mistakes, setMistakes] = useState(0);
+  const [points, setPoints] = useState<Stroke | null>(null); // Stroke being drawn
+  const [message, setMessage] = useState<string | null>(null);
+  const [revealed, setRevealed] = useState<number | null>(null); // Stroke last drawn for the user
+
+  const done = current >= total;
+
+  const toPoint = (e: React.PointerEvent) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * DATA_BOX,
+      y: ((e.clientY - rect.top) / rect.height) * DATA_BOX
+    };
+  };
+
+  const startStroke = (e: React.PointerEvent) => {
+    if (done) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setPoints([toPoint(e)]);
+  };
+
+  const extendStroke = (e: React.PointerEvent) => {
+    if (!points) return;
+    setPoints([...points, toPoint(e)]);
+  };
+
+  const endStroke = () => {
+    if (!points) return;
+    setPoints(null);
+    if (points.length < 2) return; // A tap, not a stroke
+
+    const check = compareStroke(points, medians[current], DATA_BOX);
+    if (check.ok) {
+      setCurrent(current + 1);
+      setMisses(0);
+      setMessage(null);
+      return;
+    }
+
+    const missed = misses + 1;
+    setMistakes(mistakes + 1);
+    if (missed >= REVEAL_AFTER) {
+      // Drawn for you, then on to the next stroke
+      setRevealed(current);
+      setCurrent(current + 1);
+      setMisses(0);
+      setMessage(`Stroke ${current + 1} shown. Keep going!`);
+    } else {
+      setMisses(missed);
+      setMessage(check.issue === 'direction' ? 'Right place, wrong direction.' : 'Not quite: follow the highlighted stroke.');
+    }
+  };
+
+  const restart = () => {
+    setCurrent(0);
+    setMisses(0);
+    setMistakes(0);
+    setMessage(null);
+    setRevealed(null);
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${DATA_BOX} ${DATA_BOX}`}
+        className="w-48 h-48 bg-white border border-gray-200 rounded-lg touch-none cursor-crosshair"
+        onPointerDown={startStroke}
+        onPointerMove={extendStroke}
+        onPointerUp={endStroke}
+        onPointerCancel={() => setPoints(null)}
+      >
+        <CharacterGrid />
+        <g transform={CHARACTER_TRANSFORM}>
+          {data.strokes.slice(0, current).map((outline, i) => (
+            i === revealed
+              ? <AnimatedStroke key={i} outline={outline} median={data.medians[i]} color={DONE_COLOR} />
+              : <path key={i} d={outline} fill={DONE_COLOR} />
+          ))}
+          {/* Hint after a miss: the stroke to draw, traced in its direction */}
+          {!done && misses >= HINT_AFTER && (
+            <>
+              <path d={data.strokes[current]} fill="#d1fae5" />
+              <AnimatedStroke key={`${current}-${misses}`} outline={data.strokes[current]} median={data.medians[current]} color="#6ee7b7" />
+            </>
+          )}
+        </g>
+        {points && (
+          <polyline
+            points={points.map(p => `${p.x},${p.y}`).join(' ')}
+            fill="none"
+            stroke="#6366f1"
+            strokeWidth={40}
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          />
+        )}
+      </svg>
+
+      {done ? (
+        <div className="flex items-center gap-3 text-sm">
+          <span className={mistakes === 0 ? 'text-emerald-600 font-bold' : 'text-gray-600'}>
+            {mistakes === 0 ? 'Perfect!' : `Done with ${mistakes} ${mistakes === 1 ? 'mistake' : 'mistakes'}.`}
+          </span>
+          <button onClick={restart} className="text-xs font-bold text-emerald-600 flex items-center gap-1 hover:underline">
+            <RotateCcw className="w-3 h-3" /> Again
+          </button>
+        </div>
+      ) : (
+        <p className={`text-xs ${message ? 'text-amber-700' : 'text-gray-400'}`}>
+          {message || `Draw stroke ${current + 1} of ${total}`}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+import { useState } from 'react';
+import { Play } from 'lucide-react';
+import { storage } from '../utils/storage';
+import { getWeights } from '../utils/fsrs';
+import { getDayStart } from '../utils/day';
+import { getKindsForDirection, getReviewItems } from '../utils/siblings';
+import { getSettings } from '../pages/Settings';
+import { SimulationResult, estimateReviewCosts, simulate } from '../utils/simulator';
+
+interface WorkloadSimulatorProps {
+  newCardsPerDay: number;
+  currentRetention: number;
+  onSelectRetention: (retention: number) => void;
+}
+
+const RETENTIONS = [0.8, 0.85, 0.9, 0.95, 0.97];
+const COLORS = ['#0ea5e9', '#10b981', '#6366f1', '#f59e0b', '#ef4444'];
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 120;
+
+export default function WorkloadSimulator({ newCardsPerDay, currentRetention, onSelectRetention }: WorkloadSimulatorProps) {
+  const [days, setDays] = useState(90);
+  const [results, setResults] = useState<SimulationResult[]>([]);
+
+  const runSimulation = () => {
+    // Each enabled card kind of a word is a separate card to the simulator
+    const cards = getReviewItems(storage.getCards().filter(c => !c.suspended), getKindsForDirection(getSettings().reviewDirection))
+      .map(i => i.card);
+    const costs = estimateReviewCosts(storage.getReviewLogs());
+    const weights = getWeights();
+
+    // Always include the current target so it can be compared
+    const targets = Array.from(new Set([...RETENTIONS, currentRetention])).sort((a, b) => a - b);
+    setResults(targets.map(retention => simulate(cards, { weights, retention, days, newCardsPerDay, costs, startDate: getDayStart() })));
+  };
+
+  const maxDaily = Math.max(1, ...results.flatMap(r => r.daily.map(d => d.reviews + d.newCards)));
+
+  const toPoints = (result: SimulationResult) => result.daily
+    .map((d, i) => {
+      const x = (i / Math.max(1, result.daily.length - 1)) * CHART_WIDTH;
+      const y = CHART_HEIGHT - ((d.reviews + d.newCards) / maxDaily) * CHART_HEIGHT;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-3 border border-gray-200 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-xs font-bold text-gray-500 uppercase">Workload Simulator</h4>
+        <div className="flex items-center gap-2">
+          <select
+            value={days}
+            onChange={e => setDays(parseInt(e.target.value))}
+            className="text-xs bg-white border border-gray-200 rounded px-1 py-0.5"
+          >
+            <option value={30}>30 days</option>
+            <option value={90}>90 days</option>
+            <option value={365}>1 year</option>
+          </select>
+          <button
+            onClick={runSimulation}
+            className="text-xs font-bold text-indigo-600 hover:text-indigo-800 flex items-center gap-1"
+          >
+            <Play className="w-3 h-3" /> Run
+          </button>
+        </div>
+      </div>
+
+      {results.length > 0 && (
+        <>
+          <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-32 bg-white rounded border border-gray-100" preserveAspectRatio="none">
+            {results.map((r, i) => (
+              <polyline
+                key={r.retention}
+                points={toPoints(r)}
+                fill="none"
+                stroke={COLORS[i % COLORS.length]}
+                strokeWidth={r.retention === currentRetention ? 2 : 1}
+                vectorEffect="non-scaling-stroke"
+              />
+            ))}
+          </svg>
+          <div className="text-[10px] text-gray-400 text-right">Max {maxDaily} cards/day</div>
+
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-gray-400 uppercase">
+                <th className="text-left font-bold">Retention</th>
+                <th className="text-right font-bold">Cards/day</th>
+                <th className="text-right font-bold">Min/day</th>
+                <th className="text-right font-bold">Memorized</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {results.map((r, i) => (
+                <tr key={r.retention} className={r.retention === currentRetention ? 'font-bold text-gray-800' : 'text-gray-600'}>
+                  <td className="py-1">
+                    <span className="inline-block w-2 h-2 rounded-full mr-1" style={{ backgroundColor: COLORS[i % COLORS.length] }} />
+                    {Math.round(r.retention * 100)}%
+                  </td>
+                  <td className="text-right">{(r.totalReviews / r.daily.length).toFixed(1)}</td>
+                  <td className="text-right">{(r.totalSeconds / r.daily.length / 60).toFixed(1)}</td>
+                  <td className="text-right">{Math.round(r.memorized)}</td>
+                  <td className="text-right">
+                    {r.retention !== currentRetention && (
+                      <button
+                        onClick={() => onSelectRetention(r.retention)}
+                        className="text-indigo-600 hover:text-indigo-800 font-medium"
+                      >
+                        Use
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { useState, useEffect, useRef } from 'react';
 import { Send, Sparkles, RefreshCw, ChevronLeft, PlayCircle, Trash2 } from 'lucide-react';
 import { ai } from '../../utils/ai';
+import { toneMarkInput } from '../../utils/pinyin';
 
 interface Message {
   role: 'user' | 'assistant';
@@ -313,7 +314,7 @@ export default function AIChat() {
         <div className="flex gap-2 items-end">
             <textarea 
               value={input}
-              onChange={e => setInput(e.target.value)}
+              onChange={e => setInput(toneMarkInput(e.target))}
               onKeyDown={e => {
                   if (e.key === 'Enter' && !e.shiftKey) {
                       e.preventDefault();
@@ -234,7 +234,8 @@ export default function StoryReader() {
       srsState: 'new',
       srsStability: 0,
       srsDifficulty: 5,
-      srsDue: new Date().toISOString()
+      srsDue: new Date().toISOString(),
+      sourceStory: story?.title
     };
     const allCards = storage.getCards();
     if (allCards.some(c => c.hanzi === newCard.hanzi)) {
@@ -0,0 +1,157 @@
+import { useMemo, useState } from 'react';
+import { SlidersHorizontal, Play, ArrowLeft } from 'lucide-react';
+import { storage } from '../utils/storage';
+import { CustomSession, CustomStudyFilter, buildCustomSession, filterCards } from '../utils/customStudy';
+import { getKindsForDirection } from '../utils/siblings';
+import { getSettings } from './Settings';
+import Review from './Review';
+
+const HSK_LEVELS = [1, 2, 3, 4, 5, 6];
+
+export default function CustomStudy({ onExit }: { onExit?: () => void }) {
+  const [filter, setFilter] = useState<CustomStudyFilter>({});
+  const [limit, setLimit] = useState(50);
+  const [reschedule, setReschedule] = useState(false);
+  const [session, setSession] = useState<CustomSession | null>(null);
+
+  const cards = useMemo(() => storage.getCards(), [session]);
+  const logs = useMemo(() => storage.getReviewLogs(), [session]);
+
+  const tags = useMemo(() => Array.from(new Set(cards.flatMap(c => c.tags || []))).sort(), [cards]);
+  const stories = useMemo(() => Array.from(new Set(cards.map(c => c.sourceStory).filter((s): s is string => !!s))).sort(), [cards]);
+  const matching = useMemo(() => filterCards(cards, filter, logs), [cards, filter, logs]);
+
+  const startSession = () => {
+    const criteria = [
+      filter.hskLevel && `HSK ${filter.hskLevel}`,
+      filter.tag && `#${filter.tag}`,
+      filter.minDifficulty && `Diff ≥ ${filter.minDifficulty}`,
+      filter.lapsedWithinDays && `Lapsed ${filter.lapsedWithinDays}d`,
+      filter.sourceStory && `"${filter.sourceStory}"`
+    ].filter(Boolean).join(', ');
+
+    const kinds = getKindsForDirection(getSettings().reviewDirection);
+    setSession(buildCustomSession(matching, kinds, { title: criteria || 'All cards', limit, reschedule }));
+  };
+
+  if (session) {
+    return <Review custom={session} onExit={() => setSession(null)} />;
+  }
+
+  return (
+    <div className="max-w-md mx-auto space-y-6 pb-20">
+      <div className="flex items-center gap-2">
+        {onExit && (
+          <button onClick={onExit} className="p-2 text-gray-500 hover:bg-gray-100 rounded-lg">
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+        )}
+        <h2 className="text-2xl font-bold text-gray-800 flex items-center gap-2">
+          <SlidersHorizontal className="w-6 h-6 text-indigo-600" />
+          Custom Study
+        </h2>
+      </div>
+
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200 space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          <div className="flex flex-col gap-1">
+            <label className="text-sm text-gray-600">HSK level</label>
+            <select
+              value={filter.hskLevel || ''}
+              onChange={e => setFilter({ ...filter, hskLevel: parseInt(e.target.value) || undefined })}
+              className="p-2 border rounded-md bg-white"
+            >
+              <option value="">Any</option>
+              {HSK_LEVELS.map(level => <option key={level} value={level}>HSK {level}</option>)}
+            </select>
+          </div>
+
+          <div className="flex flex-col gap-1">
+            <label className="text-sm text-gray-600">Tag</label>
+            <select
+              value={filter.tag || ''}
+              onChange={e => setFilter({ ...filter, tag: e.target.value || undefined })}
+              className="p-2 border rounded-md bg-white"
+            >
+              <option value="">Any</option>
+              {tags.map(tag => <option key={tag} value={tag}>{tag}</option>)}
+            </select>
+          </div>
+
+          <div className="flex flex-col gap-1">
+            <label className="text-sm text-gray-600">Difficulty at least</label>
+            <input
+              type="number"
+              min="0"
+              max="10"
+              step="0.5"
+              value={filter.minDifficulty || ''}
+              placeholder="Any"
+              onChange={e => setFilter({ ...filter, minDifficulty: parseFloat(e.target.value) || undefined })}
+              className="p-2 border rounded-md"
+            />
+          </div>
+
+          <div className="flex flex-col gap-1">
+            <label className="text-sm text-gray-600">Lapsed in last N days</label>
+            <input
+              type="number"
+              min="0"
+              value={filter.lapsedWithinDays || ''}
+              placeholder="Any"
+              onChange={e => setFilter({ ...filter, lapsedWithinDays: parseInt(e.target.value) || undefined })}
+              className="p-2 border rounded-md"
+            />
+          </div>
+        </div>
+
+        <div className="flex flex-col gap-1">
+          <label className="text-sm text-gray-600">Added from story</label>
+          <select
+            value={filter.sourceStory || ''}
+            onChange={e => setFilter({ ...filter, sourceStory: e.target.value || undefined })}
+            className="p-2 border rounded-md bg-white"
+          >
+            <option value="">Any</option>
+            {stories.map(title => <option key={title} value={title}>{title}</option>)}
+          </select>
+        </div>
+
+        <div className="flex flex-col gap-1">
+          <label className="text-sm text-gray-600">Maximum cards (0 = all)</label>
+          <input
+            type="number"
+            min="0"
+            value={limit}
+            onChange={e => setLimit(parseInt(e.target.value) || 0)}
+            className="p-2 border rounded-md"
+          />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div>
+            <label className="text-sm font-medium text-gray-700">Affect Scheduling</label>
+            <p className="text-xs text-gray-400">
+              {reschedule ? 'Ratings update FSRS like normal reviews.' : 'Preview only: nothing is rescheduled or logged.'}
+            </p>
+          </div>
+          <button
+            onClick={() => setReschedule(!reschedule)}
+            className={`w-12 h-6 rounded-full transition-colors relative ${reschedule ? 'bg-emerald-500' : 'bg-gray-200'}`}
+          >
+            <div className={`absolute top-1 left-1 w-4 h-4 bg-white rounded-full transition-transform ${reschedule ? 'translate-x-6' : ''}`} />
+          </button>
+        </div>
+
+        <button
+          onClick={startSession}
+          disabled={matching.length === 0}
+          className="w-full py-3 bg-indigo-600 text-white font-bold rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+        >
+          <Play className="w-4 h-4" />
+          Start ({matching.length} matching words)
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,10 +1,18 @@
 import { useState, useMemo } from 'react';
-import { Search, Calendar, Edit2, Trash2, Filter, ArrowUp, ArrowDown, Clock, GraduationCap } from 'lucide-react';
-import { Card } from '../types';
+import { Search, Calendar, Edit2, Trash2, Filter, ArrowUp, ArrowDown, Clock, GraduationCap, Ban, EyeOff, Activity, Info } from 'lucide-react';
+import { Card, CardKind } from '../types';
 import { storage } from '../utils/storage';
+import { LEECH_TAG, getBuryUntil, isCardBuried } from '../utils/srs';
+import { fsrs } from '../utils/fsrs';
+import { CARD_KIND_LABELS, getKindsForDirection, getReviewItems } from '../utils/siblings';
+import { getSettings } from './Settings';
+import { toneMarkInput } from '../utils/pinyin';
 import { useAuth } from '../contexts/AuthContext';
+import CardInfo from '../components/CardInfo';
 
-type SortOption = 'due' | 'newest' | 'difficulty' | 'alpha';
+type SortOption = 'due' | 'newest' | 'difficulty' | 'alpha' | 'retrievability';
+
+const LOW_RECALL_THRESHOLD = 0.7;
 
 export default function Deck() {
   const { user } = useAuth();
@@ -12,9 +20,24 @@ export default function Deck() {
   const [search, setSearch] = useState('');
   const [sort, setSort] = useState<SortOption>('due');
   const [sortAsc, setSortAsc] = useState(true);
+  const [lowRecallOnly, setLowRecallOnly] = useState(false);
   
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editForm, setEditForm] = useState<Partial<Card>>({});
+  const [infoCard, setInfoCard] = useState<Card | null>(null);
+
+  // Current recall probability per card: the lowest among its enabled kinds
+  // (null = none of them reviewed yet)
+  const retrievability = useMemo(() => {
+    const now = new Date();
+    const kinds = getKindsForDirection(getSettings().reviewDirection);
+    return new Map(cards.map(c => {
+      const recalls = getReviewItems([c], kinds)
+        .map(item => fsrs.retrievability(item.card, now))
+        .filter((R): R is number => R !== null);
+      return [c.id, recalls.length > 0 ? Math.min(...recalls) : null];
+    }));
+  }, [cards]);
 
   // Filter & Sort
   const filteredCards = useMemo(() => {
@@ -24,6 +47,13 @@ export default function Deck() {
       c.translation.toLowerCase().includes(search.toLowerCase())
     );
 
+    if (lowRecallOnly) {
+      result = result.filter(c => {
+        const R = retrievability.get(c.id);
+        return R != null && R < LOW_RECALL_THRESHOLD;
+      });
+    }
+
     return result.sort((a, b) => {
       let valA, valB;
       switch(sort) {
@@ -39,6 +69,11 @@ export default function Deck() {
           valA = a.pinyin;
           valB = b.pinyin;
           break;
+        case 'retrievability':
+          // Never-reviewed cards go last
+          valA = retrievability.get(a.id) ?? 2;
+          valB = retrievability.get(b.id) ?? 2;
+          break;
         case 'due':
         default:
            // Handle empty dates (New cards) -> Put them at the end for 'due' sort usually
@@ -50,7 +85,7 @@ export default function Deck() {
       if (valA > valB) return sortAsc ? 1 : -1;
       return 0;
     });
-  }, [cards, search, sort, sortAsc]);
+  }, [cards, search, sort, sortAsc, lowRecallOnly, retrievability]);
 
   const formatDue = (isoString: string) => {
     if (!isoString) return <span className="text-blue-500 font-bold text-xs uppercase bg-blue-50 px-2 py-1 rounded">New</span>;
@@ -75,6 +110,18 @@ export default function Deck() {
     }
   };
 
+  const updateCard = (id: string, updates: Partial<Card>) => {
+    const updated = cards.map(c => c.id === id ? { ...c, ...updates } : c);
+    setCards(updated);
+    storage.saveCards(updated, user?.uid);
+  };
+
+  const toggleSuspend = (card: Card) => updateCard(card.id, { suspended: !card.suspended });
+
+  const toggleBury = (card: Card) => {
+    updateCard(card.id, { buriedUntil: isCardBuried(card) ? undefined : getBuryUntil() });
+  };
+
   const startEdit = (card: Card) => {
     setEditingId(card.id);
     setEditForm(card);
@@ -88,9 +135,10 @@ export default function Deck() {
   const saveEdit = () => {
     if (!editingId) return;
 
+    const alternatives = editForm.alternatives?.map(a => a.trim()).filter(Boolean);
     const updatedCards = cards.map(c => {
       if (c.id === editingId) {
-        return { ...c, ...editForm };
+        return { ...c, ...editForm, alternatives: alternatives?.length ? alternatives : undefined };
       }
       return c;
     });
@@ -135,7 +183,7 @@ export default function Deck() {
 
         {/* Filter Chips */}
         <div className="flex gap-2 overflow-x-auto pb-2 scrollbar-hide">
-            {(['due', 'difficulty', 'alpha'] as SortOption[]).map(option => (
+            {(['due', 'difficulty', 'retrievability', 'alpha'] as SortOption[]).map(option => (
                 <button
                     key={option}
                     onClick={() => setSort(option)}
@@ -147,9 +195,20 @@ export default function Deck() {
                     {option === 'due' && <Clock size={12} />}
                     {option === 'difficulty' && <GraduationCap size={12} />}
                     {option === 'alpha' && <Filter size={12} />}
-                    {option === 'due' ? 'Due Date' : option}
+                    {option === 'retrievability' && <Activity size={12} />}
+                    {option === 'due' ? 'Due Date' : option === 'retrievability' ? 'Recall' : option}
                 </button>
             ))}
+            <button
+                onClick={() => setLowRecallOnly(!lowRecallOnly)}
+                className={`
+                    px-3 py-1.5 rounded-full text-xs font-bold uppercase tracking-wide whitespace-nowrap transition-colors
+                    ${lowRecallOnly ? 'bg-amber-500 text-white shadow-md' : 'bg-gray-100 text-gray-500 hover:bg-gray-200'}
+                `}
+                title="Only cards you are likely to have forgotten"
+            >
+                R &lt; {Math.round(LOW_RECALL_THRESHOLD * 100)}%
+            </button>
         </div>
       </div>
 
@@ -174,7 +233,8 @@ export default function Deck() {
                                 <input 
                                     className="w-full p-2 border rounded bg-gray-50"
                                     value={editForm.pinyin}
-                                    onChange={e => setEditForm({...editForm, pinyin: e.target.value})} 
+                                    placeholder="ni3 hao3 → nǐ hǎo"
+                                    onChange={e => setEditForm({...editForm, pinyin: toneMarkInput(e.target)})} 
                                 />
                             </div>
                         </div>
@@ -186,6 +246,28 @@ export default function Deck() {
                                 onChange={e => setEditForm({...editForm, translation: e.target.value})} 
                             />
                         </div>
+                        <div className="space-y-1">
+                            <label className="text-xs text-gray-400">Also accept (other meanings, separated by ;)</label>
+                            <input 
+                                className="w-full p-2 border rounded bg-gray-50"
+                                value={(editForm.alternatives || []).join('; ')}
+                                onChange={e => setEditForm({...editForm, alternatives: e.target.value.split(';').map(a => a.trimStart())})} 
+                            />
+                        </div>
+                        <div className="space-y-1">
+                            <label className="text-xs text-gray-400">Example sentence (for cloze cards, must contain the word)</label>
+                            <input 
+                                className="w-full p-2 border rounded bg-gray-50 font-serif"
+                                value={editForm.example || ''}
+                                onChange={e => setEditForm({...editForm, example: e.target.value || undefined})} 
+                            />
+                            <input 
+                                className="w-full p-2 border rounded bg-gray-50 text-sm"
+                                placeholder="Sentence translation"
+                                value={editForm.exampleTranslation || ''}
+                                onChange={e => setEditForm({...editForm, exampleTranslation: e.target.value || undefined})} 
+                            />
+                        </div>
                         <div className="flex justify-end gap-3 pt-2">
                             <button onClick={cancelEdit} className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg text-sm font-bold">Cancel</button>
                             <button onClick={saveEdit} className="px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 text-sm font-bold shadow-sm">Save Changes</button>
@@ -206,23 +288,68 @@ export default function Deck() {
                                     <Clock size={12} />
                                     {formatDue(card.srsDue)}
                                 </div>
+                                {Object.entries(card.siblings || {}).map(([kind, schedule]) => schedule && (
+                                    <div key={kind} className="text-xs text-gray-400" title={`${CARD_KIND_LABELS[kind as CardKind]} schedule`}>
+                                        {CARD_KIND_LABELS[kind as CardKind]}: {formatDue(schedule.srsDue)}
+                                    </div>
+                                ))}
+                                {retrievability.get(card.id) != null && (
+                                    <div className="text-xs flex items-center gap-1 text-gray-400" title="Current probability of recall (lowest of the enabled card kinds)">
+                                        <Activity size={12} />
+                                        <span className={retrievability.get(card.id)! < LOW_RECALL_THRESHOLD ? 'text-amber-600 font-medium' : ''}>
+                                            R: {Math.round(retrievability.get(card.id)! * 100)}%
+                                        </span>
+                                    </div>
+                                )}
                                 {card.srsDifficulty > 0 && (
                                     <div className="text-xs flex items-center gap-1 text-gray-400">
                                         <GraduationCap size={12} />
                                         Diff: {card.srsDifficulty.toFixed(1)}
                                     </div>
                                 )}
+                                {(card.srsLapses || 0) > 0 && (
+                                    <div className="text-xs text-gray-400">Lapses: {card.srsLapses}</div>
+                                )}
+                                {card.tags?.includes(LEECH_TAG) && (
+                                    <span className="text-red-600 font-bold bg-red-50 px-2 py-0.5 rounded text-xs uppercase">Leech</span>
+                                )}
+                                {card.suspended ? (
+                                    <span className="text-gray-600 font-bold bg-gray-100 px-2 py-0.5 rounded text-xs uppercase">Suspended</span>
+                                ) : isCardBuried(card) && (
+                                    <span className="text-amber-700 font-bold bg-amber-50 px-2 py-0.5 rounded text-xs uppercase">Buried</span>
+                                )}
                             </div>
                         </div>
 
                         {/* Action Buttons (Always visible on mobile, hover on desktop) */}
                         <div className="flex flex-col gap-1 pl-4 border-l border-gray-100 ml-4">
+                            <button 
+                                onClick={() => setInfoCard(card)}
+                                className="p-2 text-gray-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors"
+                                title="Card info & history"
+                            >
+                                <Info size={18} />
+                            </button>
                             <button 
                                 onClick={() => startEdit(card)}
                                 className="p-2 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
                             >
                                 <Edit2 size={18} />
                             </button>
+                            <button 
+                                onClick={() => toggleBury(card)}
+                                className="p-2 text-gray-400 hover:text-amber-600 hover:bg-amber-50 rounded-lg transition-colors"
+                                title={isCardBuried(card) ? 'Unbury' : 'Bury until tomorrow'}
+                            >
+                                <EyeOff size={18} />
+                            </button>
+                            <button 
+                                onClick={() => toggleSuspend(card)}
+                                className={`p-2 rounded-lg transition-colors ${card.suspended ? 'text-red-600 bg-red-50' : 'text-gray-400 hover:text-red-600 hover:bg-red-50'}`}
+                                title={card.suspended ? 'Unsuspend' : 'Suspend'}
+                            >
+                                <Ban size={18} />
+                            </button>
                             <button 
                                 onClick={() => deleteCard(card.id)}
                                 className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
@@ -242,6 +369,8 @@ export default function Deck() {
             </div>
         )}
       </div>
+
+      {infoCard && <CardInfo card={infoCard} onClose={() => setInfoCard(null)} />}
     </div>
   );
 }
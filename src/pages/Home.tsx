@@ -1,8 +1,13 @@
 import { useEffect, useState } from 'react';
-import { Play, Upload, RotateCw, Calendar, AlertCircle, Flame } from 'lucide-react';
+import { Play, Upload, RotateCw, Calendar, AlertCircle, Flame, SlidersHorizontal } from 'lucide-react';
 import { View } from '../App';
 import { storage } from '../utils/storage';
 import { Card } from '../types';
+import { isCardActive, isCardDue } from '../utils/srs';
+import { getNextDayStart, getRolloverHour } from '../utils/day';
+import { getKindsForDirection, getReviewItems } from '../utils/siblings';
+import { getSettings } from './Settings';
+import ForecastChart from '../components/ForecastChart';
 
 interface HomeProps {
   setView: (view: View) => void;
@@ -21,20 +26,18 @@ export default function Home({ setView }: HomeProps) {
   useEffect(() => {
     const loadData = () => {
       const cards = storage.getCards();
+      // Every enabled card kind (direction) of a word is scheduled separately
+      const scheduled = getReviewItems(cards, getKindsForDirection(getSettings().reviewDirection)).map(i => i.card);
       
       // 1. Basic Stats
-      // Due Count: Should be everything due before end of today (local time)
+      // Due Count: Same rule as the Review queue (study day, see utils/day.ts)
       const now = new Date();
-      const endOfToday = new Date(now);
-      endOfToday.setHours(23, 59, 59, 999);
+      const rolloverHour = getRolloverHour();
+      const dueCount = scheduled.filter(c =>
+          c.srsState !== 'new' && isCardActive(c, now) && isCardDue(c, now, rolloverHour)
+      ).length;
 
-      const dueCount = cards.filter(c => {
-          if (c.srsState === 'new' || !c.srsDue) return false;
-          const due = new Date(c.srsDue);
-          return !isNaN(due.getTime()) && due <= endOfToday;
-      }).length;
-
-      const newCount = cards.filter(c => c.srsState === 'new').length;
+      const newCount = scheduled.filter(c => c.srsState === 'new' && isCardActive(c, now)).length;
       setStats({
         total: cards.length,
         due: dueCount,
@@ -48,20 +51,21 @@ export default function Home({ setView }: HomeProps) {
         .slice(0, 15);
       setHardestWords(hard);
 
-      // 3. Forecast
-      const tomorrow = new Date(now); tomorrow.setDate(now.getDate() + 1);
-      const inThreeDays = new Date(now); inThreeDays.setDate(now.getDate() + 3);
+      // 3. Forecast (whole study days after today)
+      const startOfTomorrow = getNextDayStart(now);
+      const tomorrow = new Date(startOfTomorrow); tomorrow.setDate(tomorrow.getDate() + 1);
+      const inThreeDays = new Date(startOfTomorrow); inThreeDays.setDate(inThreeDays.getDate() + 3);
       
       let countTom = 0;
       let count3d = 0;
 
-      cards.forEach(c => {
-        if (c.srsState === 'new' || !c.srsDue) return;
+      scheduled.forEach(c => {
+        if (c.srsState === 'new' || !c.srsDue || c.suspended) return;
         const due = new Date(c.srsDue);
         if (isNaN(due.getTime())) return;
         
-        if (due <= tomorrow && due > now) countTom++;
-        if (due <= inThreeDays && due > now) count3d++;
+        if (due >= startOfTomorrow && due < tomorrow) countTom++;
+        if (due >= startOfTomorrow && due < inThreeDays) count3d++;
       });
 
       setForecast({ tomorrow: countTom, threeDays: count3d });
@@ -123,6 +127,20 @@ export default function Home({ setView }: HomeProps) {
              <p className="text-xs text-gray-500">Test your streak with the entire deck!</p>
            </div>
         </button>
+
+        {/* Custom Study Button */}
+        <button
+          onClick={() => setView('custom')}
+          className="sm:col-span-2 flex flex-row items-center justify-center p-4 bg-white border-2 border-indigo-100 rounded-xl shadow-sm hover:border-indigo-400 hover:shadow-md transition-all active:scale-95 group gap-3"
+        >
+           <div className="p-2 bg-indigo-100 text-indigo-600 rounded-lg group-hover:bg-indigo-600 group-hover:text-white transition-colors">
+             <SlidersHorizontal className="w-5 h-5" />
+           </div>
+           <div className="text-left">
+             <h3 className="font-bold text-gray-800 group-hover:text-indigo-700 transition-colors">Custom Study</h3>
+             <p className="text-xs text-gray-500">Cram by HSK level, tag, difficulty or recent lapses</p>
+           </div>
+        </button>
       </div>
 
       {/* Dashboard Widgets */}
@@ -171,6 +189,7 @@ export default function Home({ setView }: HomeProps) {
                   {forecast.threeDays} cards
                 </span>
               </div>
+              <ForecastChart />
             </div>
           </div>
         </div>
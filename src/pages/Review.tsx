@@ -1,33 +1,145 @@
-import { useEffect, useState, useCallback, useRef } from 'react';
-import { Settings, RefreshCw, CheckCircle, Clock, BarChart } from 'lucide-react';
-import { Card, ReviewDirection, ReviewRating } from '../types';
+import { useEffect, useState, useCallback, useMemo, useRef } from 'react';
+import { Settings, RefreshCw, CheckCircle, Clock, BarChart, Undo2, Ban, EyeOff, AlertTriangle, Flag, Target, Timer } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
+import { Card, CardKind, ReviewDirection, ReviewItem, ReviewRating } from '../types';
 import { storage } from '../utils/storage';
-import { isCardDue } from '../utils/srs';
+import { checkLeech, getBuryUntil, getDueLoad, isCardActive, isCardDue } from '../utils/srs';
 import { fsrs } from '../utils/fsrs';
+import {
+  CARD_KINDS, CARD_KIND_LABELS, getItemKey, getKindsForDirection, getReviewItems, getSchedule, isKindAvailable,
+  setSchedule, wasSiblingReviewedToday
+} from '../utils/siblings';
 import CardDisplay from '../components/CardDisplay';
+import SessionSummary, { SessionResult, getFailedResults } from '../components/SessionSummary';
 
-import { getSettings } from './Settings';
+import { getSettings, updateSettings } from './Settings';
+import { CustomSession } from '../utils/customStudy';
+import { getGradeThresholds, suggestRating } from '../utils/autoGrade';
+import { AnswerResult } from '../utils/answer';
+import { placeNewCards, sortReviews } from '../utils/queueOrder';
 import { useAuth } from '../contexts/AuthContext';
+import { getRolloverHour } from '../utils/day';
+
+const MAX_UNDO = 20;
+
+// Everything needed to revert one rating
+interface UndoEntry {
+  card: Card | null;   // Word as it was before the rating (all sibling schedules), null in preview-only sessions
+  queue: ReviewItem[]; // Queue as it was before the rating
+  completedCount: number;
+  reviewLogId: string;
+  isNew: boolean;
+  duration: number;
+}
+
+// Session goal: stop after this long or this many reviews (0 = no goal of that kind)
+interface SessionGoal {
+  minutes: number;
+  cards: number;
+}
+
+const isGoalMet = (goal: SessionGoal, reviews: number, elapsedMs: number) =>
+  (goal.cards > 0 && reviews >= goal.cards) || (goal.minutes > 0 && elapsedMs >= goal.minutes * 60000);
+
+const formatCountdown = (ms: number) => {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+// Entry of a persisted session queue: sessions saved before sibling cards held plain cards
+type SavedQueueEntry = { card?: Card; kind?: CardKind } | Card;
+
+const isSavedReviewItem = (entry: SavedQueueEntry): entry is ReviewItem =>
+  !!entry && 'card' in entry && 'kind' in entry && !!entry.card && !!entry.kind;
+
+const isLearning = (card: Card) => card.srsState === 'learning' || card.srsState === 'relearning';
+
+/**
+ * Picks the card to show next: a learning card whose step is due comes first,
+ * and a learning card still waiting for its step never blocks other cards.
+ */
+function orderQueue(queue: ReviewItem[], now: number): ReviewItem[] {
+  const dueLearning = queue.findIndex(({ card: c }) => isLearning(c) && new Date(c.srsDue).getTime() <= now);
+  let nextIndex = dueLearning;
+  if (nextIndex === -1) {
+    nextIndex = queue.findIndex(({ card: c }) => !isLearning(c) || new Date(c.srsDue).getTime() <= now);
+  }
+  if (nextIndex <= 0) return queue; // Already first, or only waiting cards left (learn ahead)
+
+  const next = [...queue];
+  const [item] = next.splice(nextIndex, 1);
+  return [item, ...next];
+}
+
+/**
+ * Sibling burying: keeps one item per word. Learning items are never buried,
+ * but they still hide the word's other kinds for the day.
+ */
+function burySiblings(items: ReviewItem[]): ReviewItem[] {
+  const seen = new Set<string>();
+  return items.filter(item => {
+    const id = item.card.id;
+    if (seen.has(id) && !isLearning(item.card)) return false;
+    seen.add(id);
+    return true;
+  });
+}
 
-export default function Review({ onExit }: { onExit?: () => void }) {
+interface ReviewProps {
+  onExit?: () => void;
+  custom?: CustomSession; // Custom study session instead of the scheduled queue
+}
+
+export default function Review({ onExit, custom }: ReviewProps) {
   const { user } = useAuth();
-  const [queue, setQueue] = useState<Card[]>([]);
+  const [queue, setQueue] = useState<ReviewItem[]>([]);
   const [initialQueueLength, setInitialQueueLength] = useState(0);
   const [completedCount, setCompletedCount] = useState(0); // Session count
   const [isFlipped, setIsFlipped] = useState(false);
-  const [direction, setDirection] = useState<ReviewDirection>('zh-fr');
-  const [activeDirection, setActiveDirection] = useState<'zh-fr' | 'fr-zh'>('zh-fr');
+  const [direction, setDirection] = useState<ReviewDirection>(() => getSettings().reviewDirection);
   const [isLoading, setIsLoading] = useState(true);
+  const [undoStack, setUndoStack] = useState<UndoEntry[]>([]);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [results, setResults] = useState<SessionResult[]>([]); // Ratings given this session
+  const [drill, setDrill] = useState<CustomSession | null>(null);
+  const [suggestedRating, setSuggestedRating] = useState<ReviewRating | null>(null); // Auto-grade
+  const answerDurationRef = useRef<number | undefined>(undefined); // Time to the typed answer, if any
+  const gradeThresholds = useMemo(() => getGradeThresholds(storage.getReviewLogs()), []);
+
+  // Session goal (scheduled reviews only); "Keep going" drops it for the rest of the session
+  const [goal, setGoal] = useState<SessionGoal | null>(() => {
+    const { sessionGoalMinutes, sessionGoalCards } = getSettings();
+    return !custom && (sessionGoalMinutes > 0 || sessionGoalCards > 0)
+      ? { minutes: sessionGoalMinutes, cards: sessionGoalCards }
+      : null;
+  });
+  const [goalReached, setGoalReached] = useState(false);
+  const [clock, setClock] = useState(Date.now()); // Ticks for the countdown
+  const sessionStartRef = useRef<number>(Date.now());
   
   const startTimeRef = useRef<number>(Date.now());
 
   // Initialize Queue
   useEffect(() => {
     const loadQueue = () => {
+      if (custom) {
+        // Custom sessions are built up front and never persisted
+        setQueue(custom.items);
+        setInitialQueueLength(custom.items.length);
+        setCompletedCount(0);
+        setIsLoading(false);
+        startTimeRef.current = Date.now();
+        return;
+      }
+
       const allCards = storage.getCards();
       const settings = getSettings();
+      // Suspended and buried cards are out of rotation
+      const activeCards = allCards.filter(c => isCardActive(c));
+      const kinds = getKindsForDirection(direction);
+      const now = new Date();
 
-      let restoredQueue: Card[] = [];
+      let restoredQueue: ReviewItem[] = [];
       let restoredLength = 0;
       let restoredCount = 0;
 
@@ -38,7 +150,9 @@ export default function Review({ onExit }: { onExit?: () => void }) {
           const session = JSON.parse(savedSession);
           // Validate if session is still valid (e.g. not empty)
           if (session.queue && session.queue.length > 0) {
-            restoredQueue = session.queue;
+            // Plain cards from older sessions were zh-fr reviews
+            restoredQueue = (session.queue as SavedQueueEntry[]).map((entry): ReviewItem =>
+              isSavedReviewItem(entry) ? entry : { card: entry as Card, kind: 'zh-fr' });
             restoredLength = session.initialQueueLength || session.queue.length;
             restoredCount = session.completedCount || 0;
           }
@@ -48,27 +162,35 @@ export default function Review({ onExit }: { onExit?: () => void }) {
       }
 
       // 2. Calculate FRESH due cards (what *should* be in the deck now)
-      
-      // Due cards (Review Queue)
-      const dueCards = allCards
-        .filter(c => c.srsState === 'review' && isCardDue(c))
-        .sort((a, b) => new Date(a.srsDue).getTime() - new Date(b.srsDue).getTime());
+      // Each enabled card kind of a word is scheduled on its own
+      let items = getReviewItems(activeCards, kinds);
+      const rolloverHour = getRolloverHour();
+      if (settings.burySiblings) {
+        // A word already reviewed through another kind today waits until tomorrow
+        items = items.filter(i => isLearning(i.card) || !wasSiblingReviewedToday(i.card, i.kind, now, rolloverHour));
+      }
+
+      // Due cards (Review Queue), in the chosen order
+      const dueCards = sortReviews(items.filter(i => i.card.srsState === 'review' && isCardDue(i.card, now, rolloverHour)), settings.reviewOrder, now);
 
       // Learning / Relearning Cards (Priority Queue)
-      const activeLearningCards = allCards
-        .filter(c => (c.srsState === 'learning' || c.srsState === 'relearning') && isCardDue(c));
+      const activeLearningCards = items
+        .filter(i => isLearning(i.card) && isCardDue(i.card, now, rolloverHour));
 
       // New cards (limit based on settings)
       const dailyLimit = settings.newCardsPerDay;
       const reviewedToday = storage.getDailyCount();
       const remainingQuota = Math.max(0, dailyLimit - reviewedToday);
 
-      const newCards = allCards
-        .filter(c => c.srsState === 'new') 
-        .slice(0, remainingQuota);
+      const newCards = items.filter(i => i.card.srsState === 'new');
 
       // Combined FRESH candidate list
       let freshCandidates = [...activeLearningCards, ...dueCards, ...newCards];
+      if (settings.burySiblings) {
+        freshCandidates = burySiblings(freshCandidates);
+      }
+      let newAllowed = remainingQuota;
+      freshCandidates = freshCandidates.filter(i => i.card.srsState !== 'new' || newAllowed-- > 0);
       
       // Apply limit to fresh candidates if needed (though usually we want all review cards)
       if (settings.reviewLimit > 0) {
@@ -77,10 +199,22 @@ export default function Review({ onExit }: { onExit?: () => void }) {
          freshCandidates = freshCandidates.slice(0, settings.reviewLimit);
       }
 
+      // Order after the limit, so it still drops new cards before reviews.
+      // Learning cards stay in front; new cards go before, after or among the reviews
+      freshCandidates = [
+        ...freshCandidates.filter(i => isLearning(i.card)),
+        ...placeNewCards(
+          freshCandidates.filter(i => i.card.srsState === 'review'),
+          freshCandidates.filter(i => i.card.srsState === 'new'),
+          settings.newCardPosition,
+          settings.newCardInterval
+        )
+      ];
+
       // 3. MERGE: Add any fresh candidates that are NOT in the restored queue
-      // We identify cards by ID.
-      const restoredIds = new Set(restoredQueue.map(c => c.id));
-      const newToAdd = freshCandidates.filter(c => !restoredIds.has(c.id));
+      // We identify items by word ID and card kind.
+      const restoredKeys = new Set(restoredQueue.map(getItemKey));
+      const newToAdd = freshCandidates.filter(i => !restoredKeys.has(getItemKey(i)));
       
       // If we have new cards to add
       let finalQueue = [...restoredQueue];
@@ -110,9 +244,18 @@ export default function Review({ onExit }: { onExit?: () => void }) {
           restoredCount = 0;
       }
 
-      // Remove duplicates (sanity check) and ensure we have full card objects
-      finalQueue = Array.from(new Set(finalQueue.map(c => c.id)))
-        .map(id => allCards.find(c => c.id === id)!);
+      // Remove duplicates (sanity check) and ensure we have up-to-date schedules
+      // (dropping cards deleted, suspended or buried since the session was saved,
+      // and kinds no longer enabled by the direction setting)
+      const activeById = new Map(activeCards.map(c => [c.id, c]));
+      const seenKeys = new Set<string>();
+      finalQueue = finalQueue.flatMap(item => {
+        const word = activeById.get(item.card?.id);
+        const key = getItemKey(item);
+        if (!word || !kinds.includes(item.kind) || !isKindAvailable(word, item.kind) || seenKeys.has(key)) return [];
+        seenKeys.add(key);
+        return [{ card: getSchedule(word, item.kind), kind: item.kind }];
+      });
 
       setQueue(finalQueue);
       setInitialQueueLength(restoredLength);
@@ -136,10 +279,11 @@ export default function Review({ onExit }: { onExit?: () => void }) {
     };
 
     loadQueue();
-  }, []);
+  }, [direction, custom]);
 
   // Save session on queue update
   useEffect(() => {
+    if (custom) return;
     // Always save state if we have a queue or have done some work
     if (queue.length > 0 || completedCount > 0) {
        if (queue.length > 0) {
@@ -153,82 +297,241 @@ export default function Review({ onExit }: { onExit?: () => void }) {
          localStorage.removeItem('mandarin-anki-session');
        }
     }
-  }, [queue, initialQueueLength, completedCount]);
+  }, [queue, initialQueueLength, completedCount, custom]);
 
-  // Determine direction for current card
+  // Countdown for a time goal
   useEffect(() => {
-    if (direction === 'mixed') {
-      setActiveDirection(Math.random() > 0.5 ? 'zh-fr' : 'fr-zh');
-    } else {
-      setActiveDirection(direction);
-    }
-  }, [completedCount, direction]);
+    if (!goal?.minutes || goalReached) return;
+    const timer = setInterval(() => setClock(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [goal, goalReached]);
+
+  // Switching direction changes which card kinds are due: start a fresh session
+  const changeDirection = (next: ReviewDirection) => {
+    updateSettings({ reviewDirection: next });
+    localStorage.removeItem('mandarin-anki-session');
+    setUndoStack([]);
+    setIsFlipped(false);
+    setSuggestedRating(null);
+    setIsLoading(true);
+    setDirection(next);
+  };
 
   const handleRate = useCallback((rating: ReviewRating) => {
-    const currentCard = queue[0];
-    if (!currentCard) return;
+    const currentItem = queue[0];
+    if (!currentItem) return;
+    const { card: currentCard, kind } = currentItem;
 
     const endTime = Date.now();
     const duration = endTime - startTimeRef.current;
     startTimeRef.current = endTime; // Reset for next card
+    const answerDuration = answerDurationRef.current;
+    answerDurationRef.current = undefined;
+    setSuggestedRating(null);
 
     // AI Coach Logic (Optional): If "Again", trigger a mini-quiz
     if (rating === 'again') {
        // Could track this for "Focus" mode later
     }
 
-    // 1. Calculate new stats
-    const updates = fsrs.review(currentCard, rating);
-    const updatedCard = { ...currentCard, ...updates };
+    setResults(prev => [...prev, { card: currentCard, kind, rating, duration }]);
+    // Goals are checked between cards, so the card in progress is always finished
+    if (goal && isGoalMet(goal, results.length + 1, endTime - sessionStartRef.current)) {
+      setGoalReached(true);
+    }
 
-    // 2. Update storage & Logs
+    // Preview-only cram: no FSRS fields or logs change, forgotten cards come back at the end
+    if (custom && !custom.reschedule) {
+      setUndoStack(prev => [
+        ...prev.slice(-(MAX_UNDO - 1)),
+        { card: null, queue, completedCount, reviewLogId: '', isNew: false, duration }
+      ]);
+      setIsFlipped(false);
+      if (rating === 'again') {
+        setQueue(prev => [...prev.slice(1), currentItem]);
+      } else {
+        setQueue(prev => prev.slice(1));
+        setCompletedCount(prev => prev + 1);
+      }
+      return;
+    }
+
+    // 1. Calculate new stats (load balanced against the rest of the deck)
+    const now = new Date(endTime);
     const allCards = storage.getCards();
+    const dueLoad = getDueLoad(allCards.filter(c => c.id !== currentCard.id));
+    const updates: Partial<Card> = fsrs.review(currentCard, rating, now, { dueLoad });
+    let updatedCard: Card = { ...currentCard, ...updates };
+
+    // Leech detection (may suspend the card)
+    const leech = checkLeech(updatedCard);
+    if (leech && rating === 'again' && currentCard.srsState === 'review') {
+      Object.assign(updates, leech);
+      updatedCard = { ...updatedCard, ...leech };
+      setNotice(updatedCard.suspended
+        ? `"${currentCard.hanzi}" is a leech and was suspended.`
+        : `"${currentCard.hanzi}" is a leech. Consider rewriting its hint.`);
+    } else {
+      setNotice(null);
+    }
+
+    // 2. Update storage & Logs
     const cardIndex = allCards.findIndex(c => c.id === currentCard.id);
     if (cardIndex !== -1) {
-      allCards[cardIndex] = updatedCard;
+      const word = allCards[cardIndex];
+      // Only this kind's schedule changes; its siblings keep their own
+      allCards[cardIndex] = setSchedule(word, kind, updates);
       storage.saveCards(allCards, user?.uid);
       
       // LOGGING: Update daily stats
       const isNew = currentCard.srsState === 'new';
       storage.logReview(isNew, duration);
+
+      // LOGGING: Persistent per-review history
+      const dayMs = 1000 * 60 * 60 * 24;
+      const lastReview = currentCard.srsLastReview ? new Date(currentCard.srsLastReview).getTime() : now.getTime();
+      const reviewLogId = uuidv4();
+      storage.addReviewLog({
+        id: reviewLogId,
+        cardId: currentCard.id,
+        timestamp: now.toISOString(),
+        rating,
+        direction: kind,
+        duration,
+        answerDuration,
+        elapsedDays: Math.max(0, (now.getTime() - lastReview) / dayMs),
+        scheduledDays: Math.max(0, (new Date(updatedCard.srsDue).getTime() - now.getTime()) / dayMs),
+        stateBefore: currentCard.srsState,
+        stateAfter: updatedCard.srsState,
+        stabilityBefore: currentCard.srsStability || 0,
+        stabilityAfter: updatedCard.srsStability,
+        difficultyBefore: currentCard.srsDifficulty || 0,
+        difficultyAfter: updatedCard.srsDifficulty
+      });
+
+      setUndoStack(prev => [
+        ...prev.slice(-(MAX_UNDO - 1)),
+        { card: word, queue, completedCount, reviewLogId, isNew, duration }
+      ]);
     }
 
     // 3. Queue Management (Interleaving)
     setIsFlipped(false);
 
-    if (rating === 'again') {
-        // Re-insert into queue soon (e.g., 3rd position or end if short)
-        setQueue(prev => {
-            const next = [...prev];
-            next.shift(); // Remove current
-            // Insert back at index 3 or end
-            const insertIndex = Math.min(next.length, 3);
-            next.splice(insertIndex, 0, updatedCard);
-            return next;
-        });
-        // Don't increment completedCount if we failed it, we'll see it again
+    // Once a word has been seen, its siblings wait until tomorrow (unless mid-learning)
+    const buryRest = (rest: ReviewItem[]) => !custom && getSettings().burySiblings
+      ? rest.filter(i => i.card.id !== currentCard.id || isLearning(i.card))
+      : rest;
+    // Sibling items of the same word must see shared changes (e.g. leech suspension)
+    const syncWord = (rest: ReviewItem[]) => updatedCard.suspended
+      ? rest.filter(i => i.card.id !== currentCard.id)
+      : rest;
+
+    if (isLearning(updatedCard) && !updatedCard.suspended) {
+        // Still in learning / relearning steps: keep it in the session until it graduates
+        setQueue(prev => orderQueue([...buryRest(prev.slice(1)), { card: updatedCard, kind }], now.getTime()));
+        // Don't increment completedCount, we'll see it again
     } else {
         // Move to next
-        setQueue(prev => {
-            const next = [...prev];
-            next.shift();
-            return next;
-        });
+        setQueue(prev => orderQueue(syncWord(buryRest(prev.slice(1))), now.getTime()));
         setCompletedCount(prev => prev + 1);
     }
-  }, [queue, user]);
+  }, [queue, user, completedCount, custom, goal, results.length]);
+
+  // Reverts the last rating: card fields, daily & per-review logs, and queue position
+  const handleUndo = useCallback(() => {
+    const entry = undoStack[undoStack.length - 1];
+    if (!entry) return;
+
+    // Preview-only ratings changed nothing but the queue
+    if (entry.card) {
+      const previous = entry.card;
+      const allCards = storage.getCards();
+      const cardIndex = allCards.findIndex(c => c.id === previous.id);
+      if (cardIndex !== -1) {
+        allCards[cardIndex] = previous;
+        storage.saveCards(allCards, user?.uid);
+      }
+      storage.unlogReview(entry.isNew, entry.duration);
+      storage.removeReviewLog(entry.reviewLogId);
+    }
+
+    setUndoStack(prev => prev.slice(0, -1));
+    setResults(prev => prev.slice(0, -1));
+    setGoalReached(false);
+    setQueue(entry.queue);
+    setCompletedCount(entry.completedCount);
+    setIsFlipped(false);
+    setSuggestedRating(null);
+    answerDurationRef.current = undefined;
+    startTimeRef.current = Date.now();
+  }, [undoStack, user]);
+
+  // Takes the current card out of rotation (suspend) or out of today's session (bury)
+  const setAside = (action: 'suspend' | 'bury') => {
+    const currentCard = queue[0]?.card;
+    if (!currentCard) return;
+
+    const updates: Partial<Card> = action === 'suspend'
+      ? { suspended: true }
+      : { buriedUntil: getBuryUntil() };
+
+    const allCards = storage.getCards().map(c => c.id === currentCard.id ? { ...c, ...updates } : c);
+    storage.saveCards(allCards, user?.uid);
+
+    setNotice(`"${currentCard.hanzi}" was ${action === 'suspend' ? 'suspended' : 'buried until tomorrow'}.`);
+    setIsFlipped(false);
+    setSuggestedRating(null);
+    answerDurationRef.current = undefined;
+    // Applies to the whole word, so every sibling leaves the queue
+    const removed = queue.filter(i => i.card.id === currentCard.id).length;
+    setQueue(prev => orderQueue(prev.filter(i => i.card.id !== currentCard.id), Date.now()));
+    setInitialQueueLength(prev => Math.max(0, prev - removed));
+    startTimeRef.current = Date.now();
+  };
+
+  // Typed answer checked: remember how long it took and suggest a rating
+  const handleAnswer = (correct: boolean, durationMs: number, result: AnswerResult) => {
+    answerDurationRef.current = durationMs;
+    if (getSettings().autoGrade && queue[0]) {
+      const rating = suggestRating(correct, durationMs, gradeThresholds, queue[0].kind);
+      // A typo'd answer is at best Hard
+      setSuggestedRating(result === 'almost' && rating !== 'again' ? 'hard' : rating);
+    }
+  };
+
+  // Re-drills the cards rated Again, as a preview-only session (schedules untouched)
+  const startDrill = () => {
+    const allCards = storage.getCards();
+    const items = getFailedResults(results).flatMap(r => {
+      const word = allCards.find(c => c.id === r.card.id);
+      return word ? [{ card: getSchedule(word, r.kind), kind: r.kind }] : [];
+    });
+    setDrill({ title: 'Failed cards', items, reschedule: false });
+  };
 
   // ... Keyboard shortcuts ...
   // Keyboard Shortcuts
   useEffect(() => {
+    if (drill || goalReached) return; // The drill session handles its own keys
+
     const handleKeyDown = (e: KeyboardEvent) => {
       if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+
+      // Ctrl+Z / Cmd+Z / u to undo the last rating
+      if ((e.key === 'z' && (e.ctrlKey || e.metaKey)) || (e.key === 'u' && !e.ctrlKey && !e.metaKey)) {
+        e.preventDefault();
+        handleUndo();
+        return;
+      }
       
-      // Space to flip
+      // Space to flip, Enter to accept the suggested rating
       if (e.code === 'Space' || e.code === 'Enter') {
         e.preventDefault(); // Prevent scrolling
         if (!isFlipped) {
           setIsFlipped(true);
+        } else if (e.code === 'Enter' && suggestedRating) {
+          handleRate(suggestedRating);
         }
         return;
       }
@@ -246,10 +549,14 @@ export default function Review({ onExit }: { onExit?: () => void }) {
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [isFlipped, handleRate]);
+  }, [isFlipped, handleRate, handleUndo, drill, suggestedRating, goalReached]);
 
   // ...
   
+  if (drill) {
+    return <Review custom={drill} onExit={() => setDrill(null)} />;
+  }
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -281,6 +588,51 @@ export default function Review({ onExit }: { onExit?: () => void }) {
     }
   }
 
+  // Goal reached: the rest of the queue stays saved for the next session
+  if (goalReached && queue.length > 0) {
+    const minutes = Math.round((Date.now() - sessionStartRef.current) / 60000);
+    const leftover = new Set(queue.map(i => i.card.id)).size;
+
+    return (
+      <div className="text-center py-8 sm:py-16 space-y-6 max-w-md mx-auto">
+        <div className="w-24 h-24 bg-indigo-100 text-indigo-600 rounded-full flex items-center justify-center mx-auto shadow-sm animate-bounce-in">
+          <Flag className="w-12 h-12" />
+        </div>
+
+        <h2 className="text-3xl font-bold text-gray-800">Goal Reached</h2>
+        <p className="text-gray-600">
+          {results.length} reviews in {minutes} min. {leftover} {leftover === 1 ? 'word is' : 'words are'} kept for your next session.
+        </p>
+
+        <SessionSummary results={results} onDrill={startDrill} />
+
+        <button
+          onClick={() => { setGoal(null); setGoalReached(false); startTimeRef.current = Date.now(); }}
+          className="w-full py-3 bg-emerald-600 text-white font-bold rounded-lg hover:bg-emerald-700 transition-colors"
+        >
+          Keep Going
+        </button>
+
+        {undoStack.length > 0 && (
+          <button
+            onClick={handleUndo}
+            className="w-full py-3 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors font-medium flex items-center justify-center gap-2"
+          >
+            <Undo2 className="w-4 h-4" />
+            Undo Last Rating
+          </button>
+        )}
+
+        <button 
+          onClick={() => onExit ? onExit() : window.location.reload()} 
+          className="w-full py-3 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors font-medium"
+        >
+          Back to Dashboard
+        </button>
+      </div>
+    );
+  }
+
   // Finished State
   if (queue.length === 0) {
     const settings = getSettings();
@@ -289,14 +641,15 @@ export default function Review({ onExit }: { onExit?: () => void }) {
     const dailyLog = storage.getDailyLog();
     const allCards = storage.getCards();
     
+    const newItems = getReviewItems(allCards.filter(c => isCardActive(c)), getKindsForDirection(direction))
+        .filter(i => i.card.srsState === 'new');
+
     // Check if we hit the new card limit
-    const hasMoreNewCards = allCards.some(c => c.srsState === 'new') && reviewedToday >= dailyLimit;
+    const hasMoreNewCards = !custom && newItems.length > 0 && reviewedToday >= dailyLimit;
 
     const loadMoreNewCards = () => {
         // Override limit: Add 10 more new cards
-        const moreCards = allCards
-            .filter(c => c.srsState === 'new')
-            .slice(0, 10);
+        const moreCards = (settings.burySiblings ? burySiblings(newItems) : newItems).slice(0, 10);
         
         if (moreCards.length > 0) {
             setQueue(moreCards);
@@ -315,9 +668,11 @@ export default function Review({ onExit }: { onExit?: () => void }) {
         </div>
         
         <h2 className="text-3xl font-bold text-gray-800">
-          {hasMoreNewCards ? "Daily Limit Reached" : "All Caught Up!"}
+          {custom ? "Session Complete" : hasMoreNewCards ? "Daily Limit Reached" : "All Caught Up!"}
         </h2>
         
+        <SessionSummary results={results} onDrill={startDrill} />
+
         <div className="bg-gray-50 rounded-xl p-6 border border-gray-100 space-y-4">
           <h3 className="text-sm font-bold text-gray-400 uppercase tracking-wider">Today's Progress</h3>
           
@@ -358,17 +713,33 @@ export default function Review({ onExit }: { onExit?: () => void }) {
             </div>
         )}
 
+        {undoStack.length > 0 && (
+          <button
+            onClick={handleUndo}
+            className="w-full py-3 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors font-medium flex items-center justify-center gap-2"
+          >
+            <Undo2 className="w-4 h-4" />
+            Undo Last Rating
+          </button>
+        )}
+
         <button 
           onClick={() => onExit ? onExit() : window.location.reload()} 
           className="w-full py-3 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors font-medium"
         >
-          Back to Dashboard
+          {custom ? 'Back to Custom Study' : 'Back to Dashboard'}
         </button>
       </div>
     );
   }
 
-  const currentCard = queue[0];
+  const { card: currentCard, kind: currentKind } = queue[0];
+
+  const timeLeft = goal ? goal.minutes * 60000 - (clock - sessionStartRef.current) : 0;
+  const goalProgress = goal ? Math.min(1, Math.max(
+    goal.cards > 0 ? results.length / goal.cards : 0,
+    goal.minutes > 0 ? 1 - timeLeft / (goal.minutes * 60000) : 0
+  )) : 0;
 
   return (
     <div className="max-w-md mx-auto space-y-6 pb-20 sm:pb-0">
@@ -378,30 +749,95 @@ export default function Review({ onExit }: { onExit?: () => void }) {
           <span className="font-medium text-gray-700">
             Card {completedCount + 1} / {initialQueueLength}
           </span>
+          {undoStack.length > 0 && (
+            <button
+              onClick={handleUndo}
+              className="p-1 text-gray-400 hover:text-gray-700 hover:bg-gray-100 rounded transition-colors"
+              title="Undo last rating (Ctrl+Z / U)"
+            >
+              <Undo2 className="w-4 h-4" />
+            </button>
+          )}
         </div>
         
-        <div className="flex items-center gap-2">
-          <Settings className="w-4 h-4" />
-          <select 
-            value={direction}
-            onChange={(e) => setDirection(e.target.value as ReviewDirection)}
-            className="bg-transparent border-none focus:ring-0 font-medium text-gray-700 cursor-pointer"
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => setAside('bury')}
+            className="p-1 text-gray-400 hover:text-gray-700 hover:bg-gray-100 rounded transition-colors"
+            title="Bury until tomorrow"
           >
-            <option value="zh-fr">ZH → FR</option>
-            <option value="fr-zh">FR → ZH</option>
-            <option value="mixed">Mixed</option>
-          </select>
+            <EyeOff className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => setAside('suspend')}
+            className="p-1 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded transition-colors"
+            title="Suspend card"
+          >
+            <Ban className="w-4 h-4" />
+          </button>
         </div>
+
+        {custom ? (
+          <div className="text-xs font-medium text-indigo-600 truncate max-w-[40%]" title={custom.title}>
+            {custom.reschedule ? '' : 'Preview · '}{custom.title}
+          </div>
+        ) : (
+          <div className="flex items-center gap-2">
+            <Settings className="w-4 h-4" />
+            <select 
+              value={direction}
+              onChange={(e) => changeDirection(e.target.value as ReviewDirection)}
+              className="bg-transparent border-none focus:ring-0 font-medium text-gray-700 cursor-pointer"
+            >
+              {CARD_KINDS.map(kind => (
+                <option key={kind} value={kind}>{CARD_KIND_LABELS[kind]}</option>
+              ))}
+              <option value="mixed">Mixed</option>
+            </select>
+          </div>
+        )}
       </div>
 
+      {goal && (
+        <div className="space-y-1">
+          <div className="flex justify-between text-xs text-gray-500">
+            {goal.cards > 0 && (
+              <span className="flex items-center gap-1">
+                <Target className="w-3 h-3" />
+                {results.length} / {goal.cards} reviews
+              </span>
+            )}
+            {goal.minutes > 0 && (
+              <span className="flex items-center gap-1 ml-auto">
+                <Timer className="w-3 h-3" />
+                {timeLeft > 0 ? `${formatCountdown(timeLeft)} left` : "Time's up: finish this card"}
+              </span>
+            )}
+          </div>
+          <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+            <div className="h-full bg-indigo-500 transition-all" style={{ width: `${goalProgress * 100}%` }} />
+          </div>
+        </div>
+      )}
+
+      {notice && (
+        <div className="flex items-center gap-2 text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-lg p-3">
+          <AlertTriangle className="w-4 h-4 shrink-0" />
+          {notice}
+        </div>
+      )}
+
       {/* Card */}
       <CardDisplay
-        key={currentCard.id} // Force re-mount on card change to reset internal state if any
+        key={getItemKey(queue[0])} // Force re-mount on card change to reset internal state if any
         card={currentCard}
-        direction={activeDirection}
+        direction={currentKind}
         isFlipped={isFlipped}
         onFlip={() => setIsFlipped(true)}
         onRate={handleRate}
+        onResult={handleAnswer}
+        suggestedRating={suggestedRating}
+        showIntervals={!custom || custom.reschedule}
       />
     </div>
   );
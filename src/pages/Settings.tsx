@@ -1,9 +1,17 @@
-import { useState, useEffect } from 'react';
-import { Settings as SettingsIcon, Key, BookOpen, Wrench, Trash2, AlertTriangle, Bell, CheckCircle, RotateCcw } from 'lucide-react';
+import { useState, useEffect, useRef } from 'react';
+import { Settings as SettingsIcon, Key, BookOpen, Wrench, Trash2, AlertTriangle, Bell, CheckCircle, RotateCcw, Brain, RefreshCw } from 'lucide-react';
 import { storage } from '../utils/storage';
 import { useAuth } from '../contexts/AuthContext';
 import { requestNotificationPermission } from '../utils/firebase';
-import { Card } from '../types';
+import { getWeights, parseSteps } from '../utils/fsrs';
+import { OptimizerMessage, OptimizerRequest, OptimizerResult } from '../utils/optimizer';
+import { ReschedulePlan, applyPlan, planAdvance, planPostpone, planReschedule } from '../utils/reschedule';
+import WorkloadSimulator from '../components/WorkloadSimulator';
+import { Card, CardKind, ReviewDirection } from '../types';
+import { CARD_KINDS, CARD_KIND_LABELS } from '../utils/siblings';
+import {
+  NEW_CARD_POSITION_LABELS, NewCardPosition, REVIEW_ORDER_LABELS, ReviewOrder
+} from '../utils/queueOrder';
 
 interface UserSettings {
   newCardsPerDay: number;
@@ -11,6 +19,23 @@ interface UserSettings {
   mistralApiKey: string;
   preferTraditional: boolean;
   enableHandwriting: boolean;
+  fsrsWeights: number[]; // Optimized FSRS weights (empty = defaults)
+  desiredRetention: number; // Target recall probability when a card comes due
+  learningSteps: string;   // e.g. "1m 10m"
+  relearningSteps: string; // e.g. "10m"
+  loadBalancing: boolean;  // Spread due dates to the least busy day within the fuzz range
+  leechThreshold: number;  // Lapses before a card is tagged as a leech (0 = off)
+  autoSuspendLeeches: boolean;
+  reviewDirection: ReviewDirection; // Card kinds studied: a single kind, or mixed
+  mixedCardKinds: CardKind[]; // Kinds included in mixed reviews
+  burySiblings: boolean;   // Show only one card kind of a word per day
+  dayRolloverHour: number; // Hour (0-23) at which the next study day starts
+  autoGrade: boolean;      // Suggest a rating from typed-answer correctness and speed
+  sessionGoalMinutes: number; // End a review session after this long (0 = no time goal)
+  sessionGoalCards: number;   // End a review session after this many reviews (0 = no count goal)
+  reviewOrder: ReviewOrder;   // Order of due reviews in the queue
+  newCardPosition: NewCardPosition; // Where new cards go among the reviews
+  newCardInterval: number;    // When interleaved: one new card every N reviews (0 = spread evenly)
 }
 
 const DEFAULT_SETTINGS: UserSettings = {
@@ -19,10 +44,30 @@ const DEFAULT_SETTINGS: UserSettings = {
   mistralApiKey: '',
   preferTraditional: false,
   enableHandwriting: false,
+  fsrsWeights: [],
+  desiredRetention: 0.9,
+  learningSteps: '1m 10m',
+  relearningSteps: '10m',
+  loadBalancing: true,
+  leechThreshold: 8,
+  autoSuspendLeeches: false,
+  reviewDirection: 'zh-fr',
+  mixedCardKinds: ['zh-fr', 'fr-zh'],
+  burySiblings: true,
+  dayRolloverHour: 4,
+  autoGrade: false,
+  sessionGoalMinutes: 0,
+  sessionGoalCards: 0,
+  reviewOrder: 'due',
+  newCardPosition: 'last',
+  newCardInterval: 0,
 };
 
 const SETTINGS_KEY = 'mandarin-anki-settings';
 
+// Desired retention typed in the field, kept in the range FSRS handles well
+const clampRetention = (input: string) => Math.min(0.99, Math.max(0.7, parseFloat(input) || 0.9));
+
 export const getSettings = (): UserSettings => {
   try {
     const json = localStorage.getItem(SETTINGS_KEY);
@@ -33,6 +78,13 @@ export const getSettings = (): UserSettings => {
   }
 };
 
+/**
+ * Saves a few settings without going through the Settings page (e.g. from Review).
+ */
+export const updateSettings = (updates: Partial<UserSettings>) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify({ ...getSettings(), ...updates }));
+};
+
 export default function Settings() {
   const { user } = useAuth();
   const [settings, setSettings] = useState<UserSettings>(DEFAULT_SETTINGS);
@@ -40,6 +92,22 @@ export default function Settings() {
   const [fcmToken, setFcmToken] = useState<string | null>(null);
   const [backups, setBackups] = useState<{ timestamp: string; cards: Card[] }[]>([]);
 
+  // FSRS Optimizer State
+  const workerRef = useRef<Worker | null>(null);
+  const [optimizing, setOptimizing] = useState(false);
+  const [optimizerProgress, setOptimizerProgress] = useState(0);
+  const [optimizerResult, setOptimizerResult] = useState<OptimizerResult | null>(null);
+  const [optimizerError, setOptimizerError] = useState<string | null>(null);
+
+  const [reschedulePlan, setReschedulePlan] = useState<ReschedulePlan | null>(null);
+  const [planAction, setPlanAction] = useState<'Reschedule' | 'Postpone' | 'Advance'>('Reschedule');
+  const [shiftDays, setShiftDays] = useState(7);
+  const [shiftLimit, setShiftLimit] = useState(0);
+  const [retentionInput, setRetentionInput] = useState<string | null>(null); // Raw text while typing
+
+  // Stop a running optimization when leaving the page
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
   useEffect(() => {
     setSettings(getSettings());
     setBackups(storage.getBackups());
@@ -67,24 +135,98 @@ export default function Settings() {
     }
   };
 
-  const saveSettings = () => {
-    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
-    setSaved(true);
+  const persistSettings = (next: UserSettings) => {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(next));
     
     // Trigger cloud sync if user is logged in to backup settings (API Key)
     if (user) {
         storage.syncToCloud(storage.getCards(), user.uid);
     }
+  };
 
+  const saveSettings = () => {
+    // A retention still being typed is saved too
+    persistSettings(retentionInput === null ? settings : { ...settings, desiredRetention: clampRetention(retentionInput) });
+    commitRetention();
+    setSaved(true);
     setTimeout(() => setSaved(false), 2000);
   };
 
+  // Clamps the typed retention once the user is done with the field
+  const commitRetention = () => {
+    if (retentionInput === null) return;
+    setSettings(prev => ({ ...prev, desiredRetention: clampRetention(retentionInput) }));
+    setRetentionInput(null);
+  };
+
+  const handleOptimize = () => {
+    workerRef.current?.terminate();
+    const worker = new Worker(new URL('../utils/optimizer.worker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+
+    setOptimizing(true);
+    setOptimizerProgress(0);
+    setOptimizerResult(null);
+    setOptimizerError(null);
+
+    worker.onmessage = (e: MessageEvent<OptimizerMessage>) => {
+      const msg = e.data;
+      if (msg.type === 'progress') {
+        setOptimizerProgress(msg.progress);
+        return;
+      }
+      if (msg.type === 'done') {
+        setOptimizerResult(msg.result);
+      } else {
+        setOptimizerError(msg.message);
+      }
+      setOptimizing(false);
+      worker.terminate();
+      workerRef.current = null;
+    };
+
+    const request: OptimizerRequest = { logs: storage.getReviewLogs(), weights: getWeights() };
+    worker.postMessage(request);
+  };
+
+  // Applies new weights immediately (no need to press Save)
+  const applyWeights = (weights: number[]) => {
+    const next = { ...settings, fsrsWeights: weights };
+    setSettings(next);
+    persistSettings(next);
+    setOptimizerResult(null);
+  };
+
   const handleRepair = () => {
     if (confirm("This will reset '0-repetition' cards to be treated as Brand New (clearing bad due dates). Continue?")) {
       storage.repairDeck(user?.uid);
     }
   };
 
+  const handlePlanReschedule = () => {
+    setPlanAction('Reschedule');
+    setReschedulePlan(planReschedule(storage.getCards()));
+  };
+
+  const handlePlanShift = (action: 'Postpone' | 'Advance') => {
+    const days = Math.max(1, shiftDays);
+    const plan = action === 'Postpone'
+      ? planPostpone(storage.getCards(), days, shiftLimit)
+      : planAdvance(storage.getCards(), days, shiftLimit);
+    setPlanAction(action);
+    setReschedulePlan(plan);
+  };
+
+  const handleApplyReschedule = () => {
+    if (!reschedulePlan) return;
+    const cards = storage.getCards();
+    storage.createBackup(cards); // Always keep a way back
+    storage.saveCards(applyPlan(cards, reschedulePlan), user?.uid);
+    setBackups(storage.getBackups());
+    setReschedulePlan(null);
+    alert(`${planAction === 'Reschedule' ? 'Rescheduled' : planAction === 'Postpone' ? 'Postponed' : 'Advanced'} ${reschedulePlan.changes.length} cards. A backup was created first.`);
+  };
+
   const handleRestore = (index: number, timestamp: string) => {
     if (confirm(`Restore backup from ${new Date(timestamp).toLocaleString()}? Current data will be overwritten.`)) {
       storage.restoreBackup(index);
@@ -131,9 +273,313 @@ export default function Settings() {
             />
             <p className="text-xs text-gray-400">Cap your total workload to avoid burnout.</p>
           </div>
+
+          <div className="flex flex-col gap-1">
+            <label className="text-sm text-gray-600">Review order</label>
+            <select
+              value={settings.reviewOrder}
+              onChange={e => setSettings({...settings, reviewOrder: e.target.value as ReviewOrder})}
+              className="p-2 border rounded-md focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 outline-none bg-white"
+            >
+              {(Object.keys(REVIEW_ORDER_LABELS) as ReviewOrder[]).map(order => (
+                <option key={order} value={order}>{REVIEW_ORDER_LABELS[order]}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="flex flex-col gap-1">
+              <label className="text-sm text-gray-600">New cards</label>
+              <select
+                value={settings.newCardPosition}
+                onChange={e => setSettings({...settings, newCardPosition: e.target.value as NewCardPosition})}
+                className="p-2 border rounded-md focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 outline-none bg-white"
+              >
+                {(Object.keys(NEW_CARD_POSITION_LABELS) as NewCardPosition[]).map(position => (
+                  <option key={position} value={position}>{NEW_CARD_POSITION_LABELS[position]}</option>
+                ))}
+              </select>
+            </div>
+            {settings.newCardPosition === 'interleave' && (
+              <div className="flex flex-col gap-1">
+                <label className="text-sm text-gray-600">One new card every</label>
+                <input 
+                  type="number" 
+                  min="0"
+                  max="50"
+                  value={settings.newCardInterval}
+                  onChange={e => setSettings({...settings, newCardInterval: parseInt(e.target.value) || 0})}
+                  className="p-2 border rounded-md focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 outline-none"
+                />
+              </div>
+            )}
+          </div>
+          {settings.newCardPosition === 'interleave' && (
+            <p className="text-xs text-gray-400">
+              {settings.newCardInterval > 0 ? `A new word after every ${settings.newCardInterval} reviews.` : 'New words are spread evenly through the reviews (0).'}
+              {' '}Learning cards always come first.
+            </p>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="flex flex-col gap-1">
+              <label className="text-sm text-gray-600">Session goal (minutes)</label>
+              <input 
+                type="number" 
+                min="0"
+                max="180"
+                value={settings.sessionGoalMinutes}
+                onChange={e => setSettings({...settings, sessionGoalMinutes: parseInt(e.target.value) || 0})}
+                className="p-2 border rounded-md focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 outline-none"
+              />
+            </div>
+            <div className="flex flex-col gap-1">
+              <label className="text-sm text-gray-600">Session goal (cards)</label>
+              <input 
+                type="number" 
+                min="0"
+                max="500"
+                value={settings.sessionGoalCards}
+                onChange={e => setSettings({...settings, sessionGoalCards: parseInt(e.target.value) || 0})}
+                className="p-2 border rounded-md focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 outline-none"
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-400">
+            A review session stops after the card in progress once either goal is met (0 = no goal). Leftover cards wait for your next session.
+          </p>
+
+          <div className="flex flex-col gap-1">
+            <label className="text-sm text-gray-600">Next day starts at</label>
+            <select
+              value={settings.dayRolloverHour}
+              onChange={e => setSettings({...settings, dayRolloverHour: parseInt(e.target.value)})}
+              className="p-2 border rounded-md focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 outline-none bg-white"
+            >
+              {Array.from({ length: 24 }, (_, hour) => (
+                <option key={hour} value={hour}>{String(hour).padStart(2, '0')}:00</option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-400">Reviews before this hour still count towards the previous day (due cards, daily limits, burying).</p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="flex flex-col gap-1">
+              <label className="text-sm text-gray-600">Learning steps</label>
+              <input 
+                type="text" 
+                value={settings.learningSteps}
+                onChange={e => setSettings({...settings, learningSteps: e.target.value})}
+                className="p-2 border rounded-md focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 outline-none font-mono text-sm"
+              />
+            </div>
+            <div className="flex flex-col gap-1">
+              <label className="text-sm text-gray-600">Relearning steps</label>
+              <input 
+                type="text" 
+                value={settings.relearningSteps}
+                onChange={e => setSettings({...settings, relearningSteps: e.target.value})}
+                className="p-2 border rounded-md focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 outline-none font-mono text-sm"
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-400">
+            Short intervals before a new or forgotten card graduates, e.g. "1m 10m" (s, m, h, d). Leave empty to skip.
+            {' '}Parsed: {parseSteps(settings.learningSteps).length} / {parseSteps(settings.relearningSteps).length} steps.
+          </p>
+
+          <div className="flex flex-col gap-1">
+            <label className="text-sm text-gray-600">Leech threshold</label>
+            <input 
+              type="number" 
+              min="0"
+              max="50"
+              value={settings.leechThreshold}
+              onChange={e => setSettings({...settings, leechThreshold: parseInt(e.target.value) || 0})}
+              className="p-2 border rounded-md focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 outline-none"
+            />
+            <p className="text-xs text-gray-400">Cards forgotten this many times are tagged "leech" (0 to disable).</p>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <label className="text-sm font-medium text-gray-700">Auto-suspend Leeches</label>
+              <p className="text-xs text-gray-400">Take leeches out of rotation until you fix or unsuspend them.</p>
+            </div>
+            <button
+              onClick={() => setSettings({...settings, autoSuspendLeeches: !settings.autoSuspendLeeches})}
+              className={`w-12 h-6 rounded-full transition-colors relative ${settings.autoSuspendLeeches ? 'bg-emerald-500' : 'bg-gray-200'}`}
+            >
+              <div className={`absolute top-1 left-1 w-4 h-4 bg-white rounded-full transition-transform ${settings.autoSuspendLeeches ? 'translate-x-6' : ''}`} />
+            </button>
+          </div>
+
+          <div className="flex flex-col gap-1">
+            <label className="text-sm text-gray-600">Card types in Mixed mode</label>
+            <div className="flex flex-wrap gap-2">
+              {CARD_KINDS.map(kind => {
+                const enabled = settings.mixedCardKinds.includes(kind);
+                return (
+                  <button
+                    key={kind}
+                    onClick={() => setSettings({
+                      ...settings,
+                      mixedCardKinds: enabled
+                        ? settings.mixedCardKinds.filter(k => k !== kind)
+                        : [...settings.mixedCardKinds, kind]
+                    })}
+                    className={`px-3 py-1 rounded-full text-xs font-bold transition-colors ${enabled ? 'bg-emerald-600 text-white' : 'bg-gray-100 text-gray-500 hover:bg-gray-200'}`}
+                  >
+                    {CARD_KIND_LABELS[kind]}
+                  </button>
+                );
+              })}
+            </div>
+            <p className="text-xs text-gray-400">Each type is scheduled separately. Cloze cards need an example sentence (edit it in the Deck).</p>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <label className="text-sm font-medium text-gray-700">Auto-grade Suggestions</label>
+              <p className="text-xs text-gray-400">After a typed answer, pre-select a rating from correctness and your usual response times.</p>
+            </div>
+            <button
+              onClick={() => setSettings({...settings, autoGrade: !settings.autoGrade})}
+              className={`w-12 h-6 rounded-full transition-colors relative ${settings.autoGrade ? 'bg-emerald-500' : 'bg-gray-200'}`}
+            >
+              <div className={`absolute top-1 left-1 w-4 h-4 bg-white rounded-full transition-transform ${settings.autoGrade ? 'translate-x-6' : ''}`} />
+            </button>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <label className="text-sm font-medium text-gray-700">Bury Siblings</label>
+              <p className="text-xs text-gray-400">In mixed mode, review only one direction of a word per day.</p>
+            </div>
+            <button
+              onClick={() => setSettings({...settings, burySiblings: !settings.burySiblings})}
+              className={`w-12 h-6 rounded-full transition-colors relative ${settings.burySiblings ? 'bg-emerald-500' : 'bg-gray-200'}`}
+            >
+              <div className={`absolute top-1 left-1 w-4 h-4 bg-white rounded-full transition-transform ${settings.burySiblings ? 'translate-x-6' : ''}`} />
+            </button>
+          </div>
         </div>
       </div>
 
+      {/* FSRS Optimizer */}
+      <div className="space-y-4">
+        <h3 className="font-semibold text-gray-700 flex items-center gap-2">
+          <Brain className="w-4 h-4" />
+          Scheduler Parameters
+        </h3>
+
+        <div className="flex flex-col gap-1">
+          <label className="text-sm text-gray-600">Desired retention</label>
+          <input 
+            type="number" 
+            min="0.7"
+            max="0.99"
+            step="0.01"
+            value={retentionInput ?? settings.desiredRetention}
+            onChange={e => setRetentionInput(e.target.value)}
+            onBlur={commitRetention}
+            className="p-2 border rounded-md focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 outline-none"
+          />
+          <p className="text-xs text-gray-400">Chance of remembering a card when it comes due. Higher means more reviews.</p>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div>
+            <label className="text-sm font-medium text-gray-700">Load Balancing</label>
+            <p className="text-xs text-gray-400">Schedule reviews on the least busy day nearby to avoid spikes.</p>
+          </div>
+          <button
+            onClick={() => setSettings({...settings, loadBalancing: !settings.loadBalancing})}
+            className={`w-12 h-6 rounded-full transition-colors relative ${settings.loadBalancing ? 'bg-emerald-500' : 'bg-gray-200'}`}
+          >
+            <div className={`absolute top-1 left-1 w-4 h-4 bg-white rounded-full transition-transform ${settings.loadBalancing ? 'translate-x-6' : ''}`} />
+          </button>
+        </div>
+
+        <WorkloadSimulator
+          newCardsPerDay={settings.newCardsPerDay}
+          currentRetention={settings.desiredRetention}
+          onSelectRetention={r => { setRetentionInput(null); setSettings({...settings, desiredRetention: r}); }}
+        />
+
+        <p className="text-xs text-gray-400">
+          {settings.fsrsWeights.length > 0
+            ? 'Using parameters optimized on your review history.'
+            : 'Using default FSRS parameters.'}
+          {' '}Optimizing fits them to your own reviews, right here in the browser.
+        </p>
+
+        <button
+          onClick={handleOptimize}
+          disabled={optimizing}
+          className="w-full py-2 border-2 border-indigo-100 text-indigo-600 font-bold rounded-lg hover:bg-indigo-50 transition-colors flex items-center justify-center gap-2 disabled:opacity-60"
+        >
+          {optimizing ? (
+            <>
+              <RefreshCw className="w-4 h-4 animate-spin" />
+              Optimizing... {Math.round(optimizerProgress * 100)}%
+            </>
+          ) : (
+            'Optimize Parameters'
+          )}
+        </button>
+
+        {optimizerError && (
+          <p className="text-xs text-red-500 font-medium">{optimizerError}</p>
+        )}
+
+        {optimizerResult && (
+          <div className="bg-gray-50 rounded-lg p-3 border border-gray-200 space-y-3">
+            <h4 className="text-xs font-bold text-gray-500 uppercase">
+              Result ({optimizerResult.before.reviewCount} reviews)
+            </h4>
+            <div className="grid grid-cols-3 gap-2 text-sm text-center">
+              <div />
+              <div className="text-xs text-gray-400 font-bold uppercase">Before</div>
+              <div className="text-xs text-gray-400 font-bold uppercase">After</div>
+              <div className="text-left text-gray-600">Log-loss</div>
+              <div className="font-mono">{optimizerResult.before.logLoss.toFixed(4)}</div>
+              <div className="font-mono font-bold text-emerald-600">{optimizerResult.after.logLoss.toFixed(4)}</div>
+              <div className="text-left text-gray-600">RMSE</div>
+              <div className="font-mono">{(optimizerResult.before.rmse * 100).toFixed(2)}%</div>
+              <div className="font-mono font-bold text-emerald-600">{(optimizerResult.after.rmse * 100).toFixed(2)}%</div>
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => applyWeights(optimizerResult.weights)}
+                className="flex-1 py-2 bg-emerald-600 text-white text-sm font-bold rounded-lg hover:bg-emerald-700 transition-colors"
+              >
+                Use New Parameters
+              </button>
+              <button
+                onClick={() => setOptimizerResult(null)}
+                className="flex-1 py-2 text-gray-600 text-sm font-bold rounded-lg hover:bg-gray-100 transition-colors"
+              >
+                Discard
+              </button>
+            </div>
+          </div>
+        )}
+
+        {settings.fsrsWeights.length > 0 && !optimizerResult && (
+          <button
+            onClick={() => {
+              if (confirm('Revert to the default FSRS parameters?')) {
+                applyWeights([]);
+              }
+            }}
+            className="text-xs text-indigo-600 hover:text-indigo-800 font-medium flex items-center gap-1"
+          >
+            <RotateCcw className="w-3 h-3" /> Revert to defaults
+          </button>
+        )}
+      </div>
+
       {/* AI Settings */}
       <div className="space-y-4">
         <h3 className="font-semibold text-gray-700 flex items-center gap-2">
@@ -184,7 +630,7 @@ export default function Settings() {
         <div className="flex items-center justify-between">
           <div>
             <label className="text-sm font-medium text-gray-700">Handwriting Practice</label>
-            <p className="text-xs text-gray-400">Enable drawing canvas for French to Chinese reviews.</p>
+            <p className="text-xs text-gray-400">Drawing canvas for cards answered in Chinese, graded offline stroke by stroke.</p>
           </div>
           <button
             onClick={() => setSettings({...settings, enableHandwriting: !settings.enableHandwriting})}
@@ -255,9 +701,103 @@ export default function Settings() {
             >
             Repair "New Cards" Issues
             </button>
+
+            {reschedulePlan ? (
+                <div className="bg-gray-50 rounded-lg p-3 border border-gray-200 space-y-2">
+                    <h4 className="text-xs font-bold text-gray-500 uppercase">{planAction} {reschedulePlan.changes.length} review cards</h4>
+                    <div className="grid grid-cols-3 gap-2 text-center text-sm">
+                        <div className="bg-white p-2 rounded border border-gray-100">
+                            <div className="font-bold text-amber-600">{reschedulePlan.earlier}</div>
+                            <div className="text-[10px] text-gray-500 uppercase">Earlier</div>
+                        </div>
+                        <div className="bg-white p-2 rounded border border-gray-100">
+                            <div className="font-bold text-emerald-600">{reschedulePlan.later}</div>
+                            <div className="text-[10px] text-gray-500 uppercase">Later</div>
+                        </div>
+                        <div className="bg-white p-2 rounded border border-gray-100">
+                            <div className="font-bold text-gray-600">{reschedulePlan.unchanged}</div>
+                            <div className="text-[10px] text-gray-500 uppercase">Same day</div>
+                        </div>
+                    </div>
+                    {reschedulePlan.changes.length > 0 && (
+                        <p className="text-xs text-gray-500">
+                            Expected recall at review: {(reschedulePlan.recallBefore * 100).toFixed(1)}% → <span className={reschedulePlan.recallAfter < reschedulePlan.recallBefore ? 'text-amber-600 font-bold' : 'text-emerald-600 font-bold'}>{(reschedulePlan.recallAfter * 100).toFixed(1)}%</span>
+                        </p>
+                    )}
+                    <div className="flex gap-2">
+                        <button
+                            onClick={handleApplyReschedule}
+                            disabled={reschedulePlan.changes.length === 0}
+                            className="flex-1 py-2 bg-indigo-600 text-white text-sm font-bold rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
+                        >
+                            Apply
+                        </button>
+                        <button
+                            onClick={() => setReschedulePlan(null)}
+                            className="flex-1 py-2 text-gray-600 text-sm font-bold rounded-lg hover:bg-gray-100 transition-colors"
+                        >
+                            Cancel
+                        </button>
+                    </div>
+                </div>
+            ) : (
+                <button 
+                onClick={handlePlanReschedule}
+                className="w-full py-2 border-2 border-indigo-100 text-indigo-600 font-bold rounded-lg hover:bg-indigo-50 transition-colors"
+                >
+                Reschedule Deck
+                </button>
+            )}
+
+            {!reschedulePlan && (
+                <div className="bg-gray-50 rounded-lg p-3 border border-gray-200 space-y-2">
+                    <h4 className="text-xs font-bold text-gray-500 uppercase">Vacation Mode</h4>
+                    <div className="grid grid-cols-2 gap-2">
+                        <label className="text-xs text-gray-600 flex flex-col gap-1">
+                            Days
+                            <input
+                                type="number"
+                                min="1"
+                                max="365"
+                                value={shiftDays}
+                                onChange={e => setShiftDays(parseInt(e.target.value) || 1)}
+                                className="p-2 border rounded-md bg-white text-sm"
+                            />
+                        </label>
+                        <label className="text-xs text-gray-600 flex flex-col gap-1">
+                            Max cards (0 = all)
+                            <input
+                                type="number"
+                                min="0"
+                                value={shiftLimit}
+                                onChange={e => setShiftLimit(parseInt(e.target.value) || 0)}
+                                className="p-2 border rounded-md bg-white text-sm"
+                            />
+                        </label>
+                    </div>
+                    <div className="flex gap-2">
+                        <button
+                            onClick={() => handlePlanShift('Postpone')}
+                            className="flex-1 py-2 border-2 border-indigo-100 text-indigo-600 text-sm font-bold rounded-lg hover:bg-indigo-50 transition-colors"
+                        >
+                            Postpone
+                        </button>
+                        <button
+                            onClick={() => handlePlanShift('Advance')}
+                            className="flex-1 py-2 border-2 border-indigo-100 text-indigo-600 text-sm font-bold rounded-lg hover:bg-indigo-50 transition-colors"
+                        >
+                            Advance
+                        </button>
+                    </div>
+                    <p className="text-[10px] text-gray-400">
+                        Postpone pushes cards due in the next days back (most stable first). Advance makes upcoming cards due now (least remembered first).
+                    </p>
+                </div>
+            )}
         </div>
         <p className="text-xs text-gray-400">
           Backups are created automatically every hour when you make changes.
+          Rescheduling recomputes due dates with your saved parameters and retention, after a backup.
         </p>
       </div>
 
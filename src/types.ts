@@ -4,20 +4,70 @@ export interface Card {
   pinyin: string;
   translation: string;
   hint?: string;
+  alternatives?: string[];     // Other meanings accepted as typed answers
+  example?: string;            // Chinese example sentence containing the word (for cloze cards)
+  exampleTranslation?: string;
 
   // Legacy SM-2 Fields (Kept for migration/fallback)
   srsEaseFactor?: number;
   srsInterval?: number; // in days
   srsRepetitions?: number;
 
-  // FSRS v4.5 Fields
+  // FSRS-5 Fields
   srsState: 'new' | 'learning' | 'review' | 'relearning';
-  srsStability: number;   // S: Memory stability (days until R=90%)
+  srsStability: number;   // S: Memory stability (days until R=90%, same meaning in v4.5 and FSRS-5)
   srsDifficulty: number;  // D: Difficulty (1-10)
   srsDue: string;         // ISO timestamp
   srsLastReview?: string; // ISO timestamp of last review
+  srsStep?: number;       // Index of the current learning/relearning step
+  srsLapses?: number;     // Times the card was forgotten after graduating
+
+  // Schedules of the other card kinds (siblings) of this word.
+  // The top-level srs* fields above are the primary ('zh-fr') schedule.
+  siblings?: Partial<Record<CardKind, SrsFields>>;
+
+  tags?: string[];        // e.g. 'leech'
+  suspended?: boolean;    // Out of rotation until unsuspended
+  buriedUntil?: string;   // ISO timestamp: hidden from reviews until then
+  sourceStory?: string;   // Title of the story the card was added from
 }
 
 export type ReviewRating = 'again' | 'hard' | 'good' | 'easy';
 
-export type ReviewDirection = 'zh-fr' | 'fr-zh' | 'mixed';
+// A schedulable way of quizzing a word. Each kind has its own FSRS state.
+// listening: hear the word, give its meaning. pinyin-zh: read the pinyin, write the
+// characters. cloze: fill the word into its example sentence.
+export type CardKind = 'zh-fr' | 'fr-zh' | 'listening' | 'pinyin-zh' | 'cloze';
+
+// A single card kind, or every kind enabled for mixed reviews
+export type ReviewDirection = CardKind | 'mixed';
+
+// Per-kind scheduling fields
+export type SrsFields = Pick<Card,
+  'srsState' | 'srsStability' | 'srsDifficulty' | 'srsDue' | 'srsLastReview' | 'srsStep' | 'srsLapses'>;
+
+// One entry of the review queue: a word seen through one of its card kinds.
+// `card` carries that kind's schedule in its top-level srs* fields.
+export interface ReviewItem {
+  card: Card;
+  kind: CardKind;
+}
+
+// Persistent per-review log entry (one per rating, never overwritten)
+export interface ReviewLog {
+  id: string;
+  cardId: string;
+  timestamp: string;      // ISO timestamp of the review
+  rating: ReviewRating;
+  direction: CardKind;    // Which sibling schedule was reviewed
+  duration: number;       // Response time in milliseconds
+  answerDuration?: number; // Time until a typed answer was checked, in milliseconds
+  elapsedDays: number;    // Days since the previous review (0 for new cards)
+  scheduledDays: number;  // Interval until the new due date, in days
+  stateBefore: Card['srsState'];
+  stateAfter: Card['srsState'];
+  stabilityBefore: number;
+  stabilityAfter: number;
+  difficultyBefore: number;
+  difficultyAfter: number;
+}
@@ -0,0 +1,137 @@
+import { Card, CardKind } from '../types';
+import { convertToneNumbers, hasTones } from './pinyin';
+
+// Typed-answer checking. Answers are compared after normalisation (case, punctuation,
+// parenthesised notes, accents, leading articles); small typos count as "almost".
+
+export type AnswerResult = 'correct' | 'almost' | 'incorrect';
+
+// What a card expects in the answer field
+export type AnswerMode = 'translation' | 'pinyin' | 'hanzi' | 'chinese'; // chinese = hanzi or pinyin
+
+// Leading articles and the infinitive marker, French and English
+const ARTICLES = /^(?:(?:le|la|les|un|une|des|du|de la|the|a|an|to)\s+|l['’]\s*)/;
+
+// Removes diacritics: tones from pinyin ("nǐ hǎo" -> "ni hao"), accents from French
+export const removeAccents = (s: string) => s.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+/**
+ * Lowercases, drops notes in parentheses ("manger (v.)") and punctuation, collapses spaces.
+ */
+export const normalizeAnswer = (s: string) => s
+  .toLowerCase()
+  .replace(/\([^)]*\)|（[^）]*）/g, '')
+  .replace(/[.,/#!?$%^&*;:{}=\-_`~()"«»]/g, ' ')
+  .replace(/\s+/g, ' ')
+  .trim();
+
+const stripArticles = (s: string) => s.replace(ARTICLES, '').trim();
+
+// Meaning comparison key: accent- and article-insensitive
+const meaningKey = (s: string) => stripArticles(removeAccents(normalizeAnswer(s)));
+
+// Typed stand-ins for ü ("nv", "nu:"), before punctuation is stripped
+const withUmlaut = (s: string) => s.toLowerCase().replace(/u:|v/g, 'ü');
+
+// Pinyin comparison key: tones and syllable spacing ignored ("ni3 hao3", "nihao")
+const pinyinKey = (s: string) => removeAccents(normalizeAnswer(withUmlaut(s))).replace(/[\s1-5]/g, '');
+
+// Toned pinyin key: numbered and marked tones are the same ("ni3 hao3" = "nǐ hǎo")
+const tonedPinyinKey = (s: string) => convertToneNumbers(normalizeAnswer(withUmlaut(s))).normalize('NFC').replace(/\s/g, '');
+
+/**
+ * Edit distance counting insertions, deletions, substitutions and swaps of
+ * adjacent letters ("mangre" is one edit from "manger").
+ */
+export function editDistance(a: string, b: string): number {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      d[i][j] = Math.min(
+        d[i - 1][j] + 1,
+        d[i][j - 1] + 1,
+        d[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
+
+// Typos tolerated for an expected answer of this length: none for short words
+const typoTolerance = (length: number) => (length <= 3 ? 0 : length <= 7 ? 1 : 2);
+
+function compare(input: string, targets: string[]): AnswerResult {
+  if (!input) return 'incorrect';
+  const candidates = targets.filter(Boolean);
+  if (candidates.includes(input)) return 'correct';
+  const almost = candidates.some(t => editDistance(input, t) <= typoTolerance(t.length));
+  return almost ? 'almost' : 'incorrect';
+}
+
+const best = (...results: AnswerResult[]): AnswerResult =>
+  results.includes('correct') ? 'correct' : results.includes('almost') ? 'almost' : 'incorrect';
+
+/**
+ * Accepted meanings: each part of the translation ("to eat / manger (v.)" gives
+ * "to eat" and "manger") plus the card's own alternatives.
+ */
+export const getAcceptedMeanings = (card: Card): string[] =>
+  [...card.translation.split(/[,;，；\/]/), ...(card.alternatives || [])];
+
+export function checkMeaning(input: string, card: Card): AnswerResult {
+  return compare(meaningKey(input), getAcceptedMeanings(card).map(meaningKey));
+}
+
+/**
+ * Pinyin typed without tones is judged on the letters alone. When tones are typed
+ * (marks or numbers) they have to be right: a wrong tone is only "almost".
+ */
+export function checkPinyin(input: string, card: Card): AnswerResult {
+  const result = compare(pinyinKey(input), [pinyinKey(card.pinyin)]);
+  if (result === 'correct' && hasTones(input) && hasTones(card.pinyin)
+    && tonedPinyinKey(input) !== tonedPinyinKey(card.pinyin)) {
+    return 'almost';
+  }
+  return result;
+}
+
+// Characters are all-or-nothing: one wrong character is a different word
+export function checkHanzi(input: string, card: Card): AnswerResult {
+  const key = (s: string) => normalizeAnswer(s).replace(/\s/g, '');
+  return key(input) === key(card.hanzi) ? 'correct' : 'incorrect';
+}
+
+/**
+ * What the answer field asks for on a card kind (zh-fr lets the user pick pinyin).
+ */
+export function getAnswerMode(kind: CardKind, guessPinyin = false): AnswerMode {
+  switch (kind) {
+    case 'zh-fr':
+      return guessPinyin ? 'pinyin' : 'translation';
+    case 'listening':
+      return 'translation';
+    case 'pinyin-zh':
+      // The pinyin is on screen: only the characters count
+      return 'hanzi';
+    default:
+      // fr-zh & cloze
+      return 'chinese';
+  }
+}
+
+export function checkAnswer(input: string, card: Card, mode: AnswerMode): AnswerResult {
+  switch (mode) {
+    case 'translation':
+      return checkMeaning(input, card);
+    case 'pinyin':
+      return checkPinyin(input, card);
+    case 'hanzi':
+      return checkHanzi(input, card);
+    case 'chinese':
+      return best(checkHanzi(input, card), checkPinyin(input, card));
+  }
+}
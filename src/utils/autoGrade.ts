@@ -0,0 +1,67 @@
+import { CardKind, ReviewLog, ReviewRating } from '../types';
+
+// Auto-grade: suggests a rating from a typed answer's correctness and response time.
+// "Fast" and "slow" are relative to the user's own history, per card kind when
+// there is enough of it.
+
+export interface ResponseThresholds {
+  fast: number; // ms: correct answers quicker than this suggest Easy
+  slow: number; // ms: correct answers slower than this suggest Hard
+}
+
+export interface GradeThresholds {
+  overall: ResponseThresholds;
+  byKind: Partial<Record<CardKind, ResponseThresholds>>;
+}
+
+const DEFAULT_THRESHOLDS: ResponseThresholds = { fast: 4000, slow: 12000 };
+const MIN_SAMPLES = 20;
+const MAX_COUNTED_DURATION = 60000; // Ignore idle time, as the simulator does
+
+function percentile(sorted: number[], p: number): number {
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.round(p * (sorted.length - 1))));
+  return sorted[index];
+}
+
+function fromDurations(durations: number[]): ResponseThresholds | null {
+  if (durations.length < MIN_SAMPLES) return null;
+  const sorted = [...durations].sort((a, b) => a - b);
+  return { fast: percentile(sorted, 0.25), slow: percentile(sorted, 0.75) };
+}
+
+/**
+ * Fast / slow cut-offs from the response times of successful reviews:
+ * the quickest quarter counts as fast, the slowest quarter as slow.
+ * Time-to-answer is used once there is enough of it, else the whole review time.
+ */
+export function getGradeThresholds(logs: ReviewLog[]): GradeThresholds {
+  const recalled = logs.filter(l => l.rating !== 'again');
+  const answered = recalled.filter(l => l.answerDuration);
+  const useAnswerTime = answered.length >= MIN_SAMPLES;
+
+  const samples = (useAnswerTime ? answered : recalled)
+    .map(l => ({ kind: l.direction, time: useAnswerTime ? l.answerDuration! : l.duration }))
+    .filter(s => s.time > 0 && s.time < MAX_COUNTED_DURATION);
+
+  const byKind: Partial<Record<CardKind, ResponseThresholds>> = {};
+  new Set(samples.map(s => s.kind)).forEach(kind => {
+    const thresholds = fromDurations(samples.filter(s => s.kind === kind).map(s => s.time));
+    if (thresholds) byKind[kind] = thresholds;
+  });
+
+  return {
+    overall: fromDurations(samples.map(s => s.time)) || DEFAULT_THRESHOLDS,
+    byKind
+  };
+}
+
+/**
+ * Wrong → Again; right and slow → Hard; right and fast → Easy; otherwise Good.
+ */
+export function suggestRating(correct: boolean, duration: number, thresholds: GradeThresholds, kind: CardKind): ReviewRating {
+  if (!correct) return 'again';
+  const { fast, slow } = thresholds.byKind[kind] || thresholds.overall;
+  if (duration > slow) return 'hard';
+  if (duration < fast) return 'easy';
+  return 'good';
+}
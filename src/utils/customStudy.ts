@@ -0,0 +1,69 @@
+import { Card, CardKind, ReviewItem, ReviewLog } from '../types';
+import { HSK_DATA } from '../data/hsk';
+import { getReviewItems } from './siblings';
+import { isCardActive } from './srs';
+import { shuffle } from './queueOrder';
+
+// Custom study: sessions built from a filter over the deck instead of the due queue.
+// They either reschedule like normal reviews or are a "preview only" cram that
+// leaves every FSRS field (and the logs) untouched.
+
+export interface CustomStudyFilter {
+  hskLevel?: number;        // Words of this HSK level
+  tag?: string;             // Cards carrying this tag
+  minDifficulty?: number;   // FSRS difficulty at or above this (1-10)
+  lapsedWithinDays?: number; // Forgotten at least once in the last N days
+  sourceStory?: string;     // Added from this story
+}
+
+export interface CustomSession {
+  title: string;
+  items: ReviewItem[];
+  reschedule: boolean; // false = preview only
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const HSK_LEVELS = new Map(HSK_DATA.map(word => [word.hanzi, word.level]));
+
+export const getHskLevel = (card: Card): number | undefined => HSK_LEVELS.get(card.hanzi);
+
+/**
+ * Cards of the deck matching every criterion of the filter (suspended cards excluded).
+ * @param logs The revlog, used for the recent-lapse criterion.
+ */
+export function filterCards(cards: Card[], filter: CustomStudyFilter, logs: ReviewLog[], now: Date = new Date()): Card[] {
+  let lapsed: Set<string> | null = null;
+  if (filter.lapsedWithinDays) {
+    const since = now.getTime() - filter.lapsedWithinDays * DAY_MS;
+    lapsed = new Set(logs
+      .filter(l => l.rating === 'again' && l.stateBefore === 'review' && new Date(l.timestamp).getTime() >= since)
+      .map(l => l.cardId));
+  }
+
+  return cards.filter(c => {
+    if (!isCardActive(c, now)) return false;
+    if (filter.hskLevel && getHskLevel(c) !== filter.hskLevel) return false;
+    if (filter.tag && !c.tags?.includes(filter.tag)) return false;
+    if (filter.minDifficulty && !(c.srsState !== 'new' && c.srsDifficulty >= filter.minDifficulty)) return false;
+    if (lapsed && !lapsed.has(c.id)) return false;
+    if (filter.sourceStory && c.sourceStory !== filter.sourceStory) return false;
+    return true;
+  });
+}
+
+/**
+ * Builds a shuffled session of at most `limit` items from the matching cards.
+ */
+export function buildCustomSession(
+  cards: Card[],
+  kinds: CardKind[],
+  options: { title: string; limit: number; reschedule: boolean }
+): CustomSession {
+  const items = shuffle(getReviewItems(cards, kinds));
+  return {
+    title: options.title,
+    items: options.limit > 0 ? items.slice(0, options.limit) : items,
+    reschedule: options.reschedule
+  };
+}
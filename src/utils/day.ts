@@ -0,0 +1,42 @@
+import { getSettings } from '../pages/Settings';
+
+// Study-day boundaries. A day starts at the "next day starts at" hour (default 4am)
+// rather than midnight, so a late-night session still counts as the evening before.
+// Every notion of "today" (due counts, daily limits, burying...) goes through here.
+
+export const DEFAULT_ROLLOVER_HOUR = 4;
+
+/**
+ * The configured rollover hour. Reads the settings: loops over many dates should read
+ * it once and pass it to the helpers below.
+ */
+export function getRolloverHour(): number {
+  const hour = getSettings().dayRolloverHour;
+  return Number.isInteger(hour) && hour >= 0 && hour <= 23 ? hour : DEFAULT_ROLLOVER_HOUR;
+}
+
+/**
+ * Start of the study day containing `date`.
+ */
+export function getDayStart(date: Date = new Date(), rolloverHour = getRolloverHour()): Date {
+  const start = new Date(date);
+  start.setHours(rolloverHour, 0, 0, 0);
+  if (start.getTime() > date.getTime()) start.setDate(start.getDate() - 1);
+  return start;
+}
+
+/**
+ * Start of the next study day (end of the current one, exclusive).
+ */
+export function getNextDayStart(date: Date = new Date(), rolloverHour = getRolloverHour()): Date {
+  const next = getDayStart(date, rolloverHour);
+  next.setDate(next.getDate() + 1);
+  return next;
+}
+
+/**
+ * Study day key (YYYY-MM-DD, local time) used for daily logs and due-date buckets.
+ */
+export function getDayKey(date: Date = new Date(), rolloverHour = getRolloverHour()): string {
+  return getDayStart(date, rolloverHour).toLocaleDateString('en-CA');
+}
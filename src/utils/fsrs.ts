@@ -1,24 +1,67 @@
 import { Card, ReviewRating } from '../types';
-
-// FSRS v4.5 Parameters (Default Optimization)
-// These weights (w) determine how stability and difficulty evolve.
+import { getSettings } from '../pages/Settings';
+import { getDayKey, getRolloverHour } from './day';
+import {
+  DEFAULT_WEIGHTS, GRADES, MAXIMUM_INTERVAL, forgettingCurve, intervalForRetention, isValidWeights, migrateWeights,
+  nextMemoryState
+} from './fsrsModel';
+
+// FSRS-5 Parameters
+// The weights (w) determine how stability and difficulty evolve. Users can replace
+// the defaults with weights fitted to their own history (Settings > Optimize).
 const P = {
-  request_retention: 0.9, // 90% retention target
-  maximum_interval: 36500, // Max interval in days (~100 years)
-  w: [
-    0.4, 0.6, 2.4, 5.8, // w[0-3]: Initial Stability for Again, Hard, Good, Easy
-    4.93, 0.94, 0.86, 0.01, // w[4-7]: Difficulty Factors
-    1.49, 0.14, 0.94, // w[8-10]: Stability Factors
-    2.18, 0.05, 0.34, 1.26, // w[11-14]: Retrievability Factors
-    0.29, 2.61 // w[15-16]: Hard Penalty & Easy Bonus
-  ]
+  maximum_interval: MAXIMUM_INTERVAL,
+};
+
+export const DEFAULT_RETENTION = 0.9; // 90% retention target
+
+/**
+ * Weights used for scheduling: the user's optimized set if any, else the defaults.
+ * Weight sets saved by the older FSRS v4.5 scheduler are converted on the fly.
+ */
+export const getWeights = (): number[] => {
+  const custom = getSettings().fsrsWeights;
+  return isValidWeights(custom) ? migrateWeights(custom) : DEFAULT_WEIGHTS;
+};
+
+/**
+ * Target probability of recall when a card comes due.
+ */
+export const getRetention = (): number => {
+  const r = getSettings().desiredRetention;
+  return r > 0 && r < 1 ? r : DEFAULT_RETENTION;
 };
 
-const MIN_LEARNING_INTERVAL_DAYS = 0.0035; // ~5 mins
+export interface ScheduleOptions {
+  fuzz?: boolean;                // Randomise review intervals (default: true)
+  dueLoad?: Map<string, number>; // Cards already due per day (see getDueLoad), for load balancing
+}
 
 /**
- * FSRS v4.5 Implementation
+ * Parses Anki-style steps ("1m 10m", "30s 1h 1d") into minutes. Invalid tokens are ignored.
+ */
+export const parseSteps = (steps: string): number[] => {
+  const units: Record<string, number> = { s: 1 / 60, m: 1, h: 60, d: 1440 };
+  return (steps || '')
+    .trim()
+    .split(/[\s,]+/)
+    .map(token => {
+      const match = token.match(/^(\d+(?:\.\d+)?)([smhd]?)$/i);
+      if (!match) return NaN;
+      return parseFloat(match[1]) * units[(match[2] || 'm').toLowerCase()];
+    })
+    .filter(minutes => minutes > 0);
+};
+
+/**
+ * FSRS-5 Implementation
  * Reference: https://github.com/open-spaced-repetition/fsrs4anki
+ *
+ * Reviews less than a day apart (learning steps, re-drills) use the FSRS-5
+ * short-term stability formula instead of the forgetting curve.
+ *
+ * New and lapsed cards walk through the configured learning / relearning steps
+ * before graduating to an FSRS interval (like Anki).
  */
 
 export const fsrs = {
@@ -27,70 +70,94 @@ export const fsrs = {
    * @param card The current card state.
    * @param rating The rating given by the user ('again', 'hard', 'good', 'easy').
    * @param now Current timestamp (defaults to now).
+   * @param options Fuzz / load balancing of the resulting review interval.
    */
-  review: (card: Card, rating: ReviewRating, now: Date = new Date()): Partial<Card> => {
+  review: (card: Card, rating: ReviewRating, now: Date = new Date(), options: ScheduleOptions = {}): Partial<Card> => {
     const lastReview = card.srsLastReview ? new Date(card.srsLastReview) : now;
     // Elapsed days since last review
     const elapsedDays = Math.max(0, (now.getTime() - lastReview.getTime()) / (1000 * 60 * 60 * 24));
     
-    let S = card.srsStability || 0;
-    let D = card.srsDifficulty || 0;
-    const retrievability = Math.pow(1 + elapsedDays / (9 * S), -1); // Forgetting Curve
-
-    // 1. Determine Grade (1=Again, 2=Hard, 3=Good, 4=Easy)
-    let grade = 0;
-    switch(rating) {
-      case 'again': grade = 1; break;
-      case 'hard': grade = 2; break;
-      case 'good': grade = 3; break;
-      case 'easy': grade = 4; break;
+    const settings = getSettings();
+    const w = getWeights();
+    const grade = GRADES[rating];
+
+    // 1. Update Stability/Difficulty (every review counts, including steps)
+    const memory = card.srsState === 'new'
+      ? null
+      : { stability: card.srsStability || 0, difficulty: card.srsDifficulty || 0 };
+    const { stability: S, difficulty: D } = nextMemoryState(w, memory, elapsedDays, grade);
+
+    // Lapse: a graduated card was forgotten
+    const srsLapses = (card.srsLapses || 0) + (card.srsState === 'review' && rating === 'again' ? 1 : 0);
+
+    const result = (srsState: Card['srsState'], srsDue: string, srsStep?: number): Partial<Card> => ({
+      srsState,
+      srsStep,
+      srsLapses,
+      srsStability: parseFloat(S.toFixed(2)),
+      srsDifficulty: parseFloat(D.toFixed(2)),
+      srsDue,
+      srsLastReview: now.toISOString()
+    });
+    const graduate = () => result('review', nextInterval(S, now, options, settings.loadBalancing));
+
+    // 2. State Transition Logic
+    if (card.srsState === 'review') {
+      // Lapse -> Relearning steps (or straight back to review if there are none)
+      const relearningSteps = parseSteps(settings.relearningSteps);
+      if (rating === 'again' && relearningSteps.length > 0) {
+        return result('relearning', afterMinutes(now, relearningSteps[0]), 0);
+      }
+      return graduate();
     }
 
-    // 2. Update State & Stability/Difficulty
-    if (card.srsState === 'new') {
-      // Initial Review for a new card
-      D = initDifficulty(grade);
-      S = initStability(grade);
-      
-      // If 'again' on new card -> Learning (Short interval)
-      // Else -> Review (Longer interval)
-      const nextState = rating === 'again' ? 'learning' : 'review';
-      return {
-        srsState: nextState,
-        srsStability: parseFloat(S.toFixed(2)),
-        srsDifficulty: parseFloat(D.toFixed(2)),
-        srsDue: nextInterval(S, now, nextState === 'learning'),
-        srsLastReview: now.toISOString()
-      };
-    } 
-    
-    // For existing cards:
-    // Calculate new Difficulty
-    const nextD = nextDifficulty(D, grade);
-
-    // Calculate new Stability
-    let nextS = S;
-    if (rating === 'again') {
-        nextS = nextForgetStability(D, S, retrievability);
-    } else {
-        nextS = nextRecallStability(D, S, retrievability, grade);
+    // New, Learning or Relearning: walk through the steps
+    const steps = parseSteps(card.srsState === 'relearning' ? settings.relearningSteps : settings.learningSteps);
+    const step = card.srsState === 'new' ? 0 : Math.min(card.srsStep || 0, steps.length - 1);
+    const nextState = card.srsState === 'new' ? 'learning' : card.srsState;
+
+    if (steps.length === 0 || rating === 'easy') return graduate();
+
+    switch (rating) {
+      case 'again':
+        return result(nextState, afterMinutes(now, steps[0]), 0);
+      case 'hard': {
+        // Repeat the current step (first step: halfway to the next one, like Anki)
+        let delay = steps[step];
+        if (step === 0) {
+          delay = steps.length > 1
+            ? (steps[0] + steps[1]) / 2
+            : Math.min(steps[0] * 1.5, steps[0] + 1440);
+        }
+        return result(nextState, afterMinutes(now, delay), step);
+      }
+      case 'good':
+      default: {
+        const next = step + 1;
+        if (next >= steps.length) return graduate();
+        return result(nextState, afterMinutes(now, steps[next]), next);
+      }
     }
+  },
 
-    // State Transition Logic
-    let nextState = card.srsState;
-    if (rating === 'again') {
-        nextState = 'relearning';
-    } else if (rating === 'easy' || rating === 'good') {
-        nextState = 'review';
-    }
+  /**
+   * Next review date for a memory of stability S last reviewed at `from`,
+   * under the current retention (with fuzz / load balancing per options).
+   */
+  reviewDue: (S: number, from: Date, options: ScheduleOptions = {}): string => {
+    return nextInterval(S, from, options, getSettings().loadBalancing);
+  },
 
-    return {
-        srsState: nextState,
-        srsStability: parseFloat(nextS.toFixed(2)),
-        srsDifficulty: parseFloat(nextD.toFixed(2)),
-        srsDue: nextInterval(nextS, now, nextState === 'relearning'),
-        srsLastReview: now.toISOString()
-    };
+  /**
+   * Current probability of recall (0-1) from the forgetting curve,
+   * or null for cards that have never been reviewed.
+   */
+  retrievability: (card: Card, now: Date = new Date()): number | null => {
+    if (card.srsState === 'new' || !card.srsLastReview || !(card.srsStability > 0)) return null;
+    const lastReview = new Date(card.srsLastReview).getTime();
+    if (isNaN(lastReview)) return null;
+    const elapsedDays = Math.max(0, (now.getTime() - lastReview) / (1000 * 60 * 60 * 24));
+    return forgettingCurve(elapsedDays, card.srsStability);
   },
 
   /**
@@ -102,7 +169,7 @@ export const fsrs = {
      const result = {} as Record<ReviewRating, string>;
      
      ratings.forEach(r => {
-         const next = fsrs.review(card, r, now);
+         const next = fsrs.review(card, r, now, { fuzz: false });
          if (next.srsDue) {
              const dueDate = new Date(next.srsDue);
              const diffMinutes = (dueDate.getTime() - now.getTime()) / (1000 * 60);
@@ -116,7 +183,8 @@ export const fsrs = {
 };
 
 // --- Helper for Time Formatting ---
-function formatTime(minutes: number): string {
+// e.g. "10m", "3d", "2mo" (also used by the card info panel)
+export function formatTime(minutes: number): string {
     if (minutes < 1) return '< 1m';
     if (minutes < 60) return `${Math.round(minutes)}m`;
     const hours = minutes / 60;
@@ -127,53 +195,60 @@ function formatTime(minutes: number): string {
     return `${(days / 365).toFixed(1)}y`;
 }
 
-// --- Core Formulas ---
-
-function initStability(grade: number): number {
-  return Math.max(0.1, P.w[grade - 1]);
-}
-
-function initDifficulty(grade: number): number {
-  const d = P.w[4] - (grade - 3) * P.w[5];
-  return Math.min(10, Math.max(1, d));
-}
+// --- Scheduling ---
 
-function nextDifficulty(D: number, grade: number): number {
-  const next_d = D - P.w[6] * (grade - 3);
-  const new_d = P.w[7] * initDifficulty(4) + (1 - P.w[7]) * next_d;
-  return Math.min(10, Math.max(1, new_d));
+function afterMinutes(now: Date, minutes: number): string {
+  return new Date(now.getTime() + minutes * 60 * 1000).toISOString();
 }
 
-function nextRecallStability(D: number, S: number, R: number, grade: number): number {
-  const hardPenalty = grade === 2 ? P.w[15] : 1;
-  const easyBonus = grade === 4 ? P.w[16] : 1;
-  
-  const exp_w8 = Math.exp(P.w[8]);
-  const pow_S_w9 = Math.pow(S, -P.w[9]);
-  const exp_w10_R = Math.exp(P.w[10] * (1 - R)) - 1;
+function nextInterval(S: number, now: Date, options: ScheduleOptions, loadBalancing: boolean): string {
+  const ideal = Math.min(P.maximum_interval, Math.max(1, intervalForRetention(S, getRetention())));
+  let days = Math.round(ideal); // Review: min 1 day, integer days
+
+  if (options.fuzz !== false) {
+    const [min, max] = fuzzRange(ideal);
+    days = min + Math.floor(Math.random() * (max - min + 1));
+
+    // Load balancing: within the fuzz range, prefer the day with the fewest reviews
+    if (loadBalancing && options.dueLoad && max > min) {
+      let best = Infinity;
+      const candidates: number[] = [];
+      const rolloverHour = getRolloverHour();
+      for (let d = min; d <= max; d++) {
+        const load = options.dueLoad.get(getDayKey(addDays(now, d), rolloverHour)) || 0;
+        if (load < best) {
+          best = load;
+          candidates.length = 0;
+        }
+        if (load === best) candidates.push(d);
+      }
+      days = candidates[Math.floor(Math.random() * candidates.length)];
+    }
+  }
   
-  const newS = S * (1 + exp_w8 * (11 - D) * pow_S_w9 * exp_w10_R * hardPenalty * easyBonus);
-  return Math.min(P.maximum_interval, newS);
-}
-
-function nextForgetStability(D: number, S: number, R: number): number {
-  const newS = P.w[11] * Math.pow(D, -P.w[12]) * (Math.pow(S + 1, P.w[13]) - 1) * Math.exp(P.w[14] * (1 - R));
-  return Math.max(0.1, newS);
+  return addDays(now, days).toISOString();
 }
 
-function nextInterval(S: number, now: Date, isShortTerm: boolean = false): string {
-  const factor = 9 * (1 / P.request_retention - 1);
-  
-  let days = S * factor;
-  if (!isShortTerm) {
-      days = Math.max(1, Math.round(days)); // Normal review: min 1 day, integer days
-  } else {
-      // Learning/Relearning: Allow fractional days down to minutes
-      // Stability is usually < 1 for these steps.
-      days = Math.max(MIN_LEARNING_INTERVAL_DAYS, days); // ~5 mins min
+// Anki's fuzz: no fuzz below 2.5 days, then +-15% / 10% / 5% on successive ranges
+const FUZZ_RANGES = [
+  { start: 2.5, end: 7, factor: 0.15 },
+  { start: 7, end: 20, factor: 0.1 },
+  { start: 20, end: Infinity, factor: 0.05 },
+];
+
+function fuzzRange(interval: number): [number, number] {
+  if (interval < 2.5) {
+    const days = Math.round(interval);
+    return [days, days];
   }
-  
-  const dueDate = new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
-  return dueDate.toISOString();
+  const delta = FUZZ_RANGES.reduce((sum, range) => {
+    return sum + range.factor * Math.max(Math.min(interval, range.end) - range.start, 0);
+  }, 1);
+  const max = Math.min(P.maximum_interval, Math.round(interval + delta));
+  const min = Math.min(max, Math.max(2, Math.round(interval - delta)));
+  return [min, max];
 }
 
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+}
@@ -0,0 +1,155 @@
+import { ReviewRating } from '../types';
+
+// Pure FSRS-5 memory model, parameterised by the weight vector.
+// Kept free of app imports so it can also run inside the optimizer Web Worker.
+
+export const DEFAULT_WEIGHTS: number[] = [
+  0.40255, 1.18385, 3.173, 15.69105, // w[0-3]: Initial Stability for Again, Hard, Good, Easy
+  7.1949, 0.5345, 1.4604, 0.0046, // w[4-7]: Difficulty Factors
+  1.54575, 0.1192, 1.01925, // w[8-10]: Stability Factors
+  1.9395, 0.11, 0.29605, 2.2698, // w[11-14]: Retrievability Factors
+  0.2315, 2.9898, // w[15-16]: Hard Penalty & Easy Bonus
+  0.51655, 0.6621 // w[17-18]: Short-term (same-day) Stability
+];
+
+// Allowed range for each weight, used to clamp optimizer results.
+export const WEIGHT_BOUNDS: [number, number][] = [
+  [0.01, 100], [0.01, 100], [0.01, 100], [0.01, 100],
+  [1, 10], [0.001, 4], [0.001, 4], [0.001, 0.75],
+  [0, 4.5], [0, 0.8], [0.001, 3.5],
+  [0.001, 5], [0.001, 0.25], [0.001, 0.9], [0, 4],
+  [0, 1], [1, 6],
+  [0, 2], [0, 2]
+];
+
+// Forgetting curve shape (FSRS-4.5 and later). R = 0.9 when elapsed == S.
+const DECAY = -0.5;
+const FACTOR = Math.pow(0.9, 1 / DECAY) - 1; // 19/81
+
+export const MAXIMUM_INTERVAL = 36500; // Max interval in days (~100 years)
+
+export interface MemoryState {
+  stability: number;
+  difficulty: number;
+}
+
+export const GRADES: Record<ReviewRating, number> = { again: 1, hard: 2, good: 3, easy: 4 };
+
+const isNumberArray = (w: unknown): w is number[] =>
+  Array.isArray(w) && w.every(x => typeof x === 'number' && isFinite(x));
+
+/**
+ * Returns true if the weights can be used by the scheduler (FSRS-5, or FSRS v4.5 to be converted).
+ */
+export function isValidWeights(w: unknown): w is number[] {
+  return isNumberArray(w) && (w.length === DEFAULT_WEIGHTS.length || w.length === 17);
+}
+
+/**
+ * Converts an FSRS v4.5 weight set (17 weights) to FSRS-5 (19 weights).
+ * v4.5's linear initial difficulty is refitted to the exponential FSRS-5 form,
+ * and the short-term weights start at 0 (same-day reviews leave stability unchanged).
+ */
+export function migrateWeights(w: number[]): number[] {
+  if (w.length !== 17) return w;
+  const migrated = [...w];
+  migrated[4] = w[5] * 2 + w[4];
+  migrated[5] = Math.log(w[5] * 3 + 1) / 3;
+  migrated[6] = w[6] + 0.5;
+  return [...migrated, 0, 0];
+}
+
+/**
+ * Probability of recall after `elapsedDays` for a memory of stability S.
+ */
+export function forgettingCurve(elapsedDays: number, S: number): number {
+  return Math.pow(1 + FACTOR * elapsedDays / S, DECAY);
+}
+
+/**
+ * Days until recall probability drops to `retention` (inverse of the forgetting curve).
+ */
+export function intervalForRetention(S: number, retention: number): number {
+  return (S / FACTOR) * (Math.pow(retention, 1 / DECAY) - 1);
+}
+
+export function initStability(w: number[], grade: number): number {
+  return Math.max(0.01, w[grade - 1]);
+}
+
+// Unclamped, so it can serve as the mean reversion target
+function rawInitDifficulty(w: number[], grade: number): number {
+  return w[4] - Math.exp(w[5] * (grade - 1)) + 1;
+}
+
+export function initDifficulty(w: number[], grade: number): number {
+  return Math.min(10, Math.max(1, rawInitDifficulty(w, grade)));
+}
+
+export function nextDifficulty(w: number[], D: number, grade: number): number {
+  // Linear damping: changes shrink as D approaches 10
+  const deltaD = -w[6] * (grade - 3);
+  const next_d = D + deltaD * (10 - D) / 9;
+  // Mean reversion towards the initial difficulty of an "Easy" card
+  const new_d = w[7] * rawInitDifficulty(w, 4) + (1 - w[7]) * next_d;
+  return Math.min(10, Math.max(1, new_d));
+}
+
+export function nextRecallStability(w: number[], D: number, S: number, R: number, grade: number): number {
+  const hardPenalty = grade === 2 ? w[15] : 1;
+  const easyBonus = grade === 4 ? w[16] : 1;
+
+  const exp_w8 = Math.exp(w[8]);
+  const pow_S_w9 = Math.pow(S, -w[9]);
+  const exp_w10_R = Math.exp(w[10] * (1 - R)) - 1;
+
+  const newS = S * (1 + exp_w8 * (11 - D) * pow_S_w9 * exp_w10_R * hardPenalty * easyBonus);
+  return Math.min(MAXIMUM_INTERVAL, newS);
+}
+
+export function nextForgetStability(w: number[], D: number, S: number, R: number): number {
+  const newS = w[11] * Math.pow(D, -w[12]) * (Math.pow(S + 1, w[13]) - 1) * Math.exp(w[14] * (1 - R));
+  // A lapse can't leave the card more stable than a same-day "Again" would
+  const maxS = S / Math.exp(w[17] * w[18]);
+  return Math.max(0.01, Math.min(newS, maxS));
+}
+
+/**
+ * Same-day review: stability changes by grade only, not by retrievability.
+ */
+export function nextShortTermStability(w: number[], S: number, grade: number): number {
+  return Math.max(0.01, S * Math.exp(w[17] * (grade - 3 + w[18])));
+}
+
+/**
+ * Reviews less than a day apart are short-term reviews.
+ */
+export function isSameDayReview(elapsedDays: number): boolean {
+  return elapsedDays < 1;
+}
+
+/**
+ * Advances a memory state by one review.
+ * @param memory The state before the review, or null for a new card.
+ * @param elapsedDays Days since the previous review.
+ * @param grade 1=Again, 2=Hard, 3=Good, 4=Easy.
+ */
+export function nextMemoryState(w: number[], memory: MemoryState | null, elapsedDays: number, grade: number): MemoryState {
+  // Legacy cards may carry no usable stability: restart them like new cards
+  if (!memory || !(memory.stability > 0)) {
+    return { stability: initStability(w, grade), difficulty: initDifficulty(w, grade) };
+  }
+
+  const { stability: S, difficulty: D } = memory;
+  if (isSameDayReview(elapsedDays)) {
+    return { stability: nextShortTermStability(w, S, grade), difficulty: nextDifficulty(w, D, grade) };
+  }
+
+  const R = forgettingCurve(elapsedDays, S);
+  return {
+    stability: grade === 1
+      ? nextForgetStability(w, D, S, R)
+      : nextRecallStability(w, D, S, R, grade),
+    difficulty: nextDifficulty(w, D, grade)
+  };
+}
@@ -0,0 +1,246 @@
+// Offline handwriting grading: strokes drawn on the canvas are compared with the
+// stroke medians of hanzi-writer-data (derived from Make Me a Hanzi), stroke by
+// stroke, for shape, order and direction. No recognition service is involved.
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export type Stroke = Point[];
+
+// hanzi-writer-data format: SVG outlines and median lines in a 1024 box, y pointing up
+export interface CharacterStrokes {
+  strokes: string[];
+  medians: number[][][];
+}
+
+export type StrokeIssue = 'shape' | 'order' | 'direction' | 'extra';
+
+export interface StrokeCheck {
+  ok: boolean;
+  issue?: StrokeIssue;
+}
+
+export interface CharacterCheck {
+  char: string;
+  expected: number;     // Stroke count of the character
+  drawn: number;        // Strokes drawn in its cell
+  score: number;        // Share of strokes right (0-1)
+  correct: boolean;
+  strokes: StrokeCheck[]; // One per drawn stroke, in drawing order
+}
+
+// Square of the canvas (in canvas pixels) that maps onto the character's data box
+export interface CharacterBox {
+  x: number;
+  y: number;
+  size: number;
+}
+
+export interface HandwritingResult {
+  correct: boolean;
+  characters: CharacterCheck[];
+  strokeMarks: boolean[]; // Right/wrong for every drawn stroke, in drawing order
+}
+
+export const DATA_BOX = 1024;   // hanzi-writer-data coordinates span a 1024 box
+const DATA_Y_OFFSET = 900;    // hanzi-writer-data: screen y = 900 - y
+const SAMPLE_POINTS = 16;
+const SHAPE_TOLERANCE = 0.2;  // Mean distance (in character widths) for a stroke to match
+const PASS_SCORE = 0.8;       // Share of right strokes for a character to pass
+
+// SVG transform drawing the outlines upright in a 0-1024 viewBox
+export const CHARACTER_TRANSFORM = `translate(0, ${DATA_Y_OFFSET}) scale(1, -1)`;
+
+// Stroke files are shipped with the app (see vite.config.ts). The files for the deck's
+// characters are copied into the browser's Cache Storage while online (see
+// precacheStrokeData), so grading and stroke order work offline, across reloads.
+const STROKE_DATA_URL = '/strokes';
+const STROKE_CACHE = 'stroke-data-v1';
+const PRECACHE_BATCH = 8; // Parallel downloads while precaching
+
+const cache = new Map<string, CharacterStrokes | null>();
+
+const strokeDataUrl = (char: string) => `${STROKE_DATA_URL}/${encodeURIComponent(char)}.json`;
+
+// Cache Storage only exists in secure contexts (https, localhost)
+const openStrokeCache = () => ('caches' in window ? caches.open(STROKE_CACHE) : Promise.resolve(null));
+
+// Not found (or the SPA fallback page): no data for this character
+const isStrokeFile = (response: Response) => response.ok && !!response.headers.get('content-type')?.includes('json');
+
+/**
+ * Stroke data of one character, or null when there is none (punctuation, rare characters).
+ * Read from Cache Storage when precached, else fetched (and stored for next time).
+ * Throws when the data can't be fetched (offline, not precached); failures aren't cached.
+ */
+export async function loadStrokeData(char: string): Promise<CharacterStrokes | null> {
+  if (cache.has(char)) return cache.get(char)!;
+  const url = strokeDataUrl(char);
+  const strokeCache = await openStrokeCache();
+  const cached = await strokeCache?.match(url);
+  const response = cached || await fetch(url);
+  const found = isStrokeFile(response);
+  if (found && !cached) await strokeCache?.put(url, response.clone());
+  const data: CharacterStrokes | null = found ? await response.json() : null;
+  cache.set(char, data);
+  return data;
+}
+
+/**
+ * Downloads the stroke data of every character in the given words that isn't in Cache
+ * Storage yet, so they can be graded offline later. Characters without data are skipped.
+ */
+export async function precacheStrokeData(words: string[]): Promise<void> {
+  const strokeCache = await openStrokeCache();
+  if (!strokeCache) return;
+  const cachedUrls = new Set((await strokeCache.keys()).map(r => new URL(r.url).pathname));
+  const missing = [...new Set(words.flatMap(w => Array.from(w.trim())))]
+    .filter(char => /\p{Script=Han}/u.test(char) && !cachedUrls.has(strokeDataUrl(char)));
+
+  for (let i = 0; i < missing.length; i += PRECACHE_BATCH) {
+    await Promise.all(missing.slice(i, i + PRECACHE_BATCH).map(async char => {
+      const url = strokeDataUrl(char);
+      const response = await fetch(url);
+      if (isStrokeFile(response)) await strokeCache.put(url, response);
+    }));
+  }
+}
+
+/**
+ * Median lines of a character in screen orientation (y pointing down).
+ */
+export const getMedians = (data: CharacterStrokes): Stroke[] =>
+  data.medians.map(median => median.map(([x, y]) => ({ x, y: DATA_Y_OFFSET - y })));
+
+const dist = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * SVG path of a median (data coordinates) and its length, for stroke animations.
+ */
+export function medianPath(median: number[][]): { d: string; length: number } {
+  const d = median.map(([x, y], i) => `${i === 0 ? 'M' : 'L'} ${x} ${y}`).join(' ');
+  const length = median.reduce((sum, [x, y], i) =>
+    i === 0 ? 0 : sum + Math.hypot(x - median[i - 1][0], y - median[i - 1][1]), 0);
+  return { d, length };
+}
+
+// Evenly spaced points along the stroke
+function resample(stroke: Stroke, count = SAMPLE_POINTS): Stroke {
+  if (stroke.length < 2) return Array.from({ length: count }, () => stroke[0] || { x: 0, y: 0 });
+  const lengths = [0];
+  for (let i = 1; i < stroke.length; i++) lengths.push(lengths[i - 1] + dist(stroke[i - 1], stroke[i]));
+  const total = lengths[lengths.length - 1] || 1;
+
+  const result: Stroke = [];
+  let segment = 1;
+  for (let i = 0; i < count; i++) {
+    const target = (total * i) / (count - 1);
+    while (segment < stroke.length - 1 && lengths[segment] < target) segment++;
+    const span = lengths[segment] - lengths[segment - 1] || 1;
+    const t = Math.min(1, Math.max(0, (target - lengths[segment - 1]) / span));
+    const a = stroke[segment - 1];
+    const b = stroke[segment];
+    result.push({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+  }
+  return result;
+}
+
+// Mean distance between two strokes, point by point
+function strokeDistance(a: Stroke, b: Stroke): number {
+  const ra = resample(a);
+  const rb = resample(b);
+  return ra.reduce((sum, p, i) => sum + dist(p, rb[i]), 0) / ra.length;
+}
+
+/**
+ * Compares one drawn stroke with the median it should follow, both in the same
+ * coordinates; `size` is the width of the character box in those coordinates.
+ * Direction is judged from the start-to-end vectors, so short strokes (dots)
+ * drawn backwards are caught even when their shape still fits.
+ */
+export function compareStroke(drawn: Stroke, median: Stroke, size = 1): StrokeCheck {
+  const forward = strokeDistance(drawn, median) / size;
+  const reversed = strokeDistance([...drawn].reverse(), median) / size;
+  if (Math.min(forward, reversed) > SHAPE_TOLERANCE) return { ok: false, issue: 'shape' };
+
+  const [start, end] = [drawn[0], drawn[drawn.length - 1]];
+  const [from, to] = [median[0], median[median.length - 1]];
+  const dot = (end.x - start.x) * (to.x - from.x) + (end.y - start.y) * (to.y - from.y);
+  if (dot < 0 || forward > SHAPE_TOLERANCE) return { ok: false, issue: 'direction' };
+  return { ok: true };
+}
+
+/**
+ * Grades the strokes of one character against its medians (screen orientation, see
+ * getMedians). The drawn strokes are placed in the data box through `box`, the square
+ * of the canvas the character was written in, so a missing stroke doesn't shift the
+ * others. Drawn stroke i is compared with stroke i of the character: a match elsewhere
+ * is an order mistake, a match when reversed a direction mistake.
+ */
+export function checkCharacter(char: string, drawn: Stroke[], medians: Stroke[], box: CharacterBox): CharacterCheck {
+  const user = drawn.map(stroke => stroke.map(p => ({
+    x: ((p.x - box.x) / box.size) * DATA_BOX,
+    y: ((p.y - box.y) / box.size) * DATA_BOX
+  })));
+
+  const strokes: StrokeCheck[] = user.map((stroke, i): StrokeCheck => {
+    if (i >= medians.length) return { ok: false, issue: 'extra' };
+    const check = compareStroke(stroke, medians[i], DATA_BOX);
+    if (check.issue === 'shape' && medians.some((t, j) => j !== i && compareStroke(stroke, t, DATA_BOX).ok)) {
+      return { ok: false, issue: 'order' };
+    }
+    return check;
+  });
+
+  const right = strokes.filter(s => s.ok).length;
+  const score = right / Math.max(medians.length, user.length, 1);
+  return {
+    char,
+    expected: medians.length,
+    drawn: user.length,
+    score,
+    correct: user.length === medians.length && score >= PASS_SCORE,
+    strokes
+  };
+}
+
+/**
+ * Grades a word written left to right across the canvas, one character per equal-width
+ * cell (strokes are assigned to cells by their centre, and graded in the largest square
+ * centred in the cell). Characters without stroke data are not graded. Returns null
+ * when nothing can be graded; throws when the stroke data can't be fetched.
+ */
+export async function checkHandwriting(
+  word: string,
+  drawn: Stroke[],
+  canvasWidth: number,
+  canvasHeight: number
+): Promise<HandwritingResult | null> {
+  const chars = Array.from(word.trim());
+  const data = await Promise.all(chars.map(loadStrokeData));
+  if (drawn.length === 0 || data.every(d => d === null)) return null;
+
+  const cellWidth = canvasWidth / chars.length;
+  const cellOf = (stroke: Stroke) => {
+    const centre = stroke.reduce((sum, p) => sum + p.x, 0) / stroke.length;
+    return Math.min(chars.length - 1, Math.max(0, Math.floor(centre / cellWidth)));
+  };
+  const cells = drawn.map(cellOf);
+
+  const strokeMarks: boolean[] = drawn.map(() => true);
+  const characters: CharacterCheck[] = [];
+  chars.forEach((char, c) => {
+    const strokeData = data[c];
+    if (!strokeData) return;
+    const indices = cells.flatMap((cell, i) => (cell === c ? [i] : []));
+    const size = Math.min(cellWidth, canvasHeight);
+    const box = { x: c * cellWidth + (cellWidth - size) / 2, y: (canvasHeight - size) / 2, size };
+    const check = checkCharacter(char, indices.map(i => drawn[i]), getMedians(strokeData), box);
+    check.strokes.forEach((s, k) => { strokeMarks[indices[k]] = s.ok; });
+    characters.push(check);
+  });
+
+  return { correct: characters.every(c => c.correct), characters, strokeMarks };
+}
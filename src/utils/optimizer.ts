@@ -0,0 +1,148 @@
+import { ReviewLog } from '../types';
+import {
+  GRADES, MemoryState, WEIGHT_BOUNDS, forgettingCurve, isSameDayReview, nextMemoryState
+} from './fsrsModel';
+
+// FSRS weight optimizer: fits the weights to the user's review history by
+// minimising the log-loss of predicted recall. Runs inside a Web Worker.
+
+export const MIN_TRAINING_REVIEWS = 50;
+
+const ITERATIONS = 250;
+const LEARNING_RATE = 0.04;
+const EPSILON = 1e-4; // Step for numerical gradients
+
+interface TrainingReview {
+  elapsedDays: number;
+  grade: number;
+}
+
+// One card's history, starting from its first (new) review
+type TrainingSequence = TrainingReview[];
+
+export interface OptimizerMetrics {
+  logLoss: number;
+  rmse: number;
+  reviewCount: number; // Reviews where recall was predicted
+}
+
+export interface OptimizerResult {
+  weights: number[];
+  before: OptimizerMetrics;
+  after: OptimizerMetrics;
+}
+
+export type OptimizerRequest = { logs: ReviewLog[]; weights: number[] };
+
+export type OptimizerMessage =
+  | { type: 'progress'; progress: number }
+  | { type: 'done'; result: OptimizerResult }
+  | { type: 'error'; message: string };
+
+/**
+ * Groups the revlog into per-card sequences (each card kind of a word has its own).
+ * Cards whose first logged review is not a new-card review are skipped: their
+ * starting memory state is unknown.
+ */
+export function buildTrainingSet(logs: ReviewLog[]): TrainingSequence[] {
+  const byCard = new Map<string, ReviewLog[]>();
+  logs.forEach(l => {
+    const key = `${l.cardId}:${l.direction}`;
+    const list = byCard.get(key) || [];
+    list.push(l);
+    byCard.set(key, list);
+  });
+
+  const sequences: TrainingSequence[] = [];
+  byCard.forEach(list => {
+    list.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+    if (list[0].stateBefore !== 'new') return;
+    if (list.length < 2) return; // Nothing to predict
+    sequences.push(list.map(l => ({ elapsedDays: l.elapsedDays, grade: GRADES[l.rating] })));
+  });
+  return sequences;
+}
+
+/**
+ * Replays every sequence with the given weights and scores the recall predictions.
+ * Same-day reviews update the memory state but are not scored (like FSRS-5).
+ */
+export function evaluate(w: number[], sequences: TrainingSequence[]): OptimizerMetrics {
+  let loss = 0;
+  let squaredError = 0;
+  let count = 0;
+
+  sequences.forEach(seq => {
+    let memory: MemoryState | null = null;
+    seq.forEach(review => {
+      if (memory && !isSameDayReview(review.elapsedDays)) {
+        const R = Math.min(1 - 1e-6, Math.max(1e-6, forgettingCurve(review.elapsedDays, memory.stability)));
+        const recalled = review.grade > 1 ? 1 : 0;
+        loss += -(recalled * Math.log(R) + (1 - recalled) * Math.log(1 - R));
+        squaredError += (R - recalled) ** 2;
+        count++;
+      }
+      memory = nextMemoryState(w, memory, review.elapsedDays, review.grade);
+    });
+  });
+
+  return {
+    logLoss: count > 0 ? loss / count : 0,
+    rmse: count > 0 ? Math.sqrt(squaredError / count) : 0,
+    reviewCount: count
+  };
+}
+
+function clampWeights(w: number[]): number[] {
+  return w.map((x, i) => Math.min(WEIGHT_BOUNDS[i][1], Math.max(WEIGHT_BOUNDS[i][0], x)));
+}
+
+/**
+ * Adam gradient descent on the log-loss, using central-difference gradients.
+ * @param onProgress Called with a value in [0, 1] after each iteration.
+ */
+export function optimize(
+  logs: ReviewLog[],
+  initialWeights: number[],
+  onProgress?: (progress: number) => void
+): OptimizerResult {
+  const sequences = buildTrainingSet(logs);
+  const before = evaluate(initialWeights, sequences);
+  if (before.reviewCount < MIN_TRAINING_REVIEWS) {
+    throw new Error(`Not enough review history yet (${before.reviewCount}/${MIN_TRAINING_REVIEWS} usable reviews).`);
+  }
+
+  const beta1 = 0.9;
+  const beta2 = 0.999;
+  const n = initialWeights.length;
+  const m = new Array(n).fill(0);
+  const v = new Array(n).fill(0);
+
+  let w = clampWeights([...initialWeights]);
+  let best = { weights: w, loss: evaluate(w, sequences).logLoss };
+
+  for (let t = 1; t <= ITERATIONS; t++) {
+    const gradient = w.map((_, i) => {
+      const plus = [...w]; plus[i] += EPSILON;
+      const minus = [...w]; minus[i] -= EPSILON;
+      return (evaluate(plus, sequences).logLoss - evaluate(minus, sequences).logLoss) / (2 * EPSILON);
+    });
+
+    // Cosine-annealed learning rate
+    const lr = LEARNING_RATE * 0.5 * (1 + Math.cos(Math.PI * t / ITERATIONS));
+    w = clampWeights(w.map((x, i) => {
+      m[i] = beta1 * m[i] + (1 - beta1) * gradient[i];
+      v[i] = beta2 * v[i] + (1 - beta2) * gradient[i] ** 2;
+      const mHat = m[i] / (1 - beta1 ** t);
+      const vHat = v[i] / (1 - beta2 ** t);
+      return x - lr * mHat / (Math.sqrt(vHat) + 1e-8);
+    }));
+
+    const loss = evaluate(w, sequences).logLoss;
+    if (loss < best.loss) best = { weights: w, loss };
+    onProgress?.(t / ITERATIONS);
+  }
+
+  const weights = best.weights.map(x => parseFloat(x.toFixed(4)));
+  return { weights, before, after: evaluate(weights, sequences) };
+}
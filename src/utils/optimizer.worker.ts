@@ -0,0 +1,21 @@
+import { OptimizerMessage, OptimizerRequest, optimize } from './optimizer';
+
+// Web Worker entry: keeps the optimizer's gradient descent off the UI thread.
+
+const post = (message: OptimizerMessage) => self.postMessage(message);
+
+self.onmessage = (e: MessageEvent<OptimizerRequest>) => {
+  try {
+    let lastReported = 0;
+    const result = optimize(e.data.logs, e.data.weights, progress => {
+      // Throttle progress messages to whole percents
+      if (progress - lastReported >= 0.01 || progress === 1) {
+        lastReported = progress;
+        post({ type: 'progress', progress });
+      }
+    });
+    post({ type: 'done', result });
+  } catch (err: unknown) {
+    post({ type: 'error', message: (err instanceof Error ? err.message : String(err)) || 'Optimization failed.' });
+  }
+};
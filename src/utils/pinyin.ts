@@ -0,0 +1,62 @@
+// Pinyin input helpers: numbered tones ("ni3 hao3", "lv4") to tone marks ("nǐ hǎo", "lǜ").
+
+const TONE_MARKS: Record<string, string> = {
+  a: 'āáǎà',
+  e: 'ēéěè',
+  i: 'īíǐì',
+  o: 'ōóǒò',
+  u: 'ūúǔù',
+  ü: 'ǖǘǚǜ'
+};
+
+// Optional initial, vowels ("v" and "u:" stand for ü), optional final, tone number.
+// Must not follow another letter, so "mp3" or "covid19" are left alone.
+const NUMBERED_SYLLABLE = /(?<![a-zü])(zh|ch|sh|[bpmfdtnlgkhjqxrzcsyw])?((?:[aeiouvü]|u:)+)(ng|n|r)?([1-5])/gi;
+
+const TONED_VOWEL = /[āáǎàēéěèīíǐìōóǒòūúǔùǖǘǚǜ]/i;
+
+// The vowel carrying the mark: a or e if present, the o of "ou", else the last vowel
+// (so "liu" marks the u and "gui" the i)
+function markIndex(vowels: string): number {
+  const lower = vowels.toLowerCase();
+  if (lower.includes('a')) return lower.indexOf('a');
+  if (lower.includes('e')) return lower.indexOf('e');
+  if (lower.includes('ou')) return lower.indexOf('o');
+  return lower.length - 1;
+}
+
+function markSyllable(vowels: string, tone: number): string {
+  const normalized = vowels.replace(/u:|v/g, 'ü').replace(/U:|V/g, 'Ü');
+  if (tone === 5) return normalized; // Neutral tone
+  const index = markIndex(normalized);
+  const vowel = normalized[index];
+  const marked = TONE_MARKS[vowel.toLowerCase()][tone - 1];
+  return normalized.slice(0, index) + (vowel === vowel.toUpperCase() ? marked.toUpperCase() : marked) + normalized.slice(index + 1);
+}
+
+/**
+ * Replaces every numbered syllable with its tone-marked form; other text is untouched.
+ */
+export function convertToneNumbers(text: string): string {
+  return text.replace(NUMBERED_SYLLABLE, (_, initial = '', vowels: string, final = '', tone: string) =>
+    initial + markSyllable(vowels, parseInt(tone)) + final
+  );
+}
+
+/**
+ * Whether the pinyin carries tones, as marks or numbers.
+ */
+export const hasTones = (text: string) => TONED_VOWEL.test(convertToneNumbers(text));
+
+/**
+ * onChange helper for text fields: converts tone numbers as they are typed and keeps
+ * the caret where it was (conversion shortens the text by one character per syllable).
+ */
+export function toneMarkInput(input: HTMLInputElement | HTMLTextAreaElement): string {
+  const converted = convertToneNumbers(input.value);
+  if (converted !== input.value && input.selectionStart !== null) {
+    const caret = input.selectionStart - (input.value.length - converted.length);
+    requestAnimationFrame(() => input.setSelectionRange(caret, caret));
+  }
+  return converted;
+}
@@ -0,0 +1,76 @@
+import { ReviewItem } from '../types';
+import { fsrs } from './fsrs';
+
+// Review queue ordering: how due reviews are sorted and where new cards go among them.
+
+export type ReviewOrder = 'due' | 'retrievability' | 'random' | 'difficulty';
+export type NewCardPosition = 'first' | 'last' | 'interleave';
+
+export const REVIEW_ORDER_LABELS: Record<ReviewOrder, string> = {
+  due: 'Due date (oldest first)',
+  retrievability: 'Lowest recall first',
+  random: 'Random',
+  difficulty: 'Hardest first'
+};
+
+export const NEW_CARD_POSITION_LABELS: Record<NewCardPosition, string> = {
+  first: 'Before reviews',
+  last: 'After reviews',
+  interleave: 'Mixed into reviews'
+};
+
+/**
+ * Shuffles a copy of the items (Fisher-Yates).
+ */
+export function shuffle<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * Sorts due review items. Retrievability is the recall probability right now,
+ * so the most at-risk memories come first.
+ */
+export function sortReviews(items: ReviewItem[], order: ReviewOrder, now: Date = new Date()): ReviewItem[] {
+  switch (order) {
+    case 'random':
+      return shuffle(items);
+    case 'difficulty':
+      return [...items].sort((a, b) => b.card.srsDifficulty - a.card.srsDifficulty);
+    case 'retrievability': {
+      const recall = new Map(items.map(i => [i, fsrs.retrievability(i.card, now) ?? 0]));
+      return [...items].sort((a, b) => recall.get(a)! - recall.get(b)!);
+    }
+    default:
+      return [...items].sort((a, b) => new Date(a.card.srsDue).getTime() - new Date(b.card.srsDue).getTime());
+  }
+}
+
+/**
+ * Places new cards among reviews. Interleaved, one new card follows every `interval`
+ * reviews (0 spreads them evenly); any left over once reviews run out go at the end.
+ */
+export function placeNewCards(
+  reviews: ReviewItem[],
+  newCards: ReviewItem[],
+  position: NewCardPosition,
+  interval = 0
+): ReviewItem[] {
+  if (position === 'first') return [...newCards, ...reviews];
+  if (position === 'last') return [...reviews, ...newCards];
+
+  const step = interval > 0 ? interval : reviews.length / (newCards.length + 1);
+  const result: ReviewItem[] = [];
+  let next = 0;
+  reviews.forEach((review, i) => {
+    result.push(review);
+    while (next < newCards.length && i + 1 >= (next + 1) * step) {
+      result.push(newCards[next++]);
+    }
+  });
+  return [...result, ...newCards.slice(next)];
+}
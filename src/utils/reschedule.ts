@@ -0,0 +1,144 @@
+import { Card, CardKind, ReviewItem } from '../types';
+import { fsrs } from './fsrs';
+import { getDueLoad } from './srs';
+import { getDayKey, getNextDayStart, getRolloverHour } from './day';
+import { CARD_KINDS, getReviewItems, setSchedule } from './siblings';
+
+// Bulk due-date changes (reschedule after parameter changes, postpone / advance).
+// Each operation is planned first so the user can preview it, then applied in one batch.
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+export interface DueChange {
+  id: string;
+  kind: CardKind; // Which sibling schedule moves
+  oldDue: string;
+  newDue: string;
+  recallBefore: number; // Expected recall probability when reviewed on the old date
+  recallAfter: number;  // ... and on the new date
+}
+
+export interface ReschedulePlan {
+  changes: DueChange[];
+  earlier: number;   // Cards moving to an earlier day
+  later: number;     // Cards moving to a later day
+  unchanged: number; // Cards staying on the same day
+  recallBefore: number; // Average expected recall at review, before the change
+  recallAfter: number;  // ... and after it
+}
+
+const summarize = (changes: DueChange[]): ReschedulePlan => {
+  let earlier = 0;
+  let later = 0;
+  let unchanged = 0;
+  const rolloverHour = getRolloverHour();
+  changes.forEach(change => {
+    const oldKey = getDayKey(new Date(change.oldDue), rolloverHour);
+    const newKey = getDayKey(new Date(change.newDue), rolloverHour);
+    if (oldKey === newKey) unchanged++;
+    else if (newKey < oldKey) earlier++;
+    else later++;
+  });
+  const average = (values: number[]) => values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+  return {
+    changes, earlier, later, unchanged,
+    recallBefore: average(changes.map(c => c.recallBefore)),
+    recallAfter: average(changes.map(c => c.recallAfter))
+  };
+};
+
+// Overdue cards are reviewed now at the earliest
+const recallAt = (card: Card, due: string, now: Date) =>
+  fsrs.retrievability(card, new Date(Math.max(new Date(due).getTime(), now.getTime()))) ?? 0;
+
+const toChange = ({ card, kind }: ReviewItem, newDue: string, now: Date): DueChange => ({
+  id: card.id,
+  kind,
+  oldDue: card.srsDue,
+  newDue,
+  recallBefore: recallAt(card, card.srsDue, now),
+  recallAfter: recallAt(card, newDue, now)
+});
+
+// Graduated review items (of every kind) that have a usable memory state
+const getReviewTargets = (cards: Card[]) => getReviewItems(cards, CARD_KINDS)
+  .filter(({ card: c }) => c.srsState === 'review' && c.srsLastReview && c.srsStability > 0 && !c.suspended
+    && !isNaN(new Date(c.srsDue).getTime()));
+
+/**
+ * Recomputes the due date of every review card (of every kind) from its stability
+ * and last review under the current parameters and retention.
+ */
+export function planReschedule(cards: Card[]): ReschedulePlan {
+  const now = new Date();
+  const targets = getReviewTargets(cards);
+
+  // Load balance against everything that is not being moved, then against the moved cards so far
+  const dueLoad = getDueLoad(cards);
+  const rolloverHour = getRolloverHour();
+  targets.forEach(({ card }) => {
+    const key = getDayKey(new Date(card.srsDue), rolloverHour);
+    dueLoad.set(key, (dueLoad.get(key) || 1) - 1);
+  });
+
+  const changes = targets.map(item => {
+    const newDue = fsrs.reviewDue(item.card.srsStability, new Date(item.card.srsLastReview!), { dueLoad });
+    const key = getDayKey(new Date(newDue), rolloverHour);
+    dueLoad.set(key, (dueLoad.get(key) || 0) + 1);
+    return toChange(item, newDue, now);
+  });
+
+  return summarize(changes);
+}
+
+/**
+ * Postpone (e.g. before a holiday): pushes review cards due before the end of the
+ * next `days` study days back by `days` days. The cards that lose the least recall
+ * are moved first; `limit` caps how many move (0 = all).
+ */
+export function planPostpone(cards: Card[], days: number, limit = 0, now: Date = new Date()): ReschedulePlan {
+  const windowEnd = getNextDayStart(now);
+  windowEnd.setDate(windowEnd.getDate() + days - 1);
+
+  const candidates = getReviewTargets(cards)
+    .filter(({ card }) => new Date(card.srsDue) < windowEnd)
+    .map(item => {
+      // Overdue cards are shifted from today, not from their old due date
+      const from = Math.max(new Date(item.card.srsDue).getTime(), now.getTime());
+      return toChange(item, new Date(from + days * DAY_MS).toISOString(), now);
+    })
+    .sort((a, b) => (b.recallAfter - b.recallBefore) - (a.recallAfter - a.recallBefore));
+
+  return summarize(limit > 0 ? candidates.slice(0, limit) : candidates);
+}
+
+/**
+ * Advance (e.g. to study ahead before a holiday): makes review cards due within the
+ * next `days` days due now. The cards with the lowest recall right now are moved
+ * first, as reviewing them early wastes the least; `limit` caps how many move (0 = all).
+ */
+export function planAdvance(cards: Card[], days: number, limit = 0, now: Date = new Date()): ReschedulePlan {
+  const todayEnd = getNextDayStart(now);
+  const windowEnd = new Date(todayEnd);
+  windowEnd.setDate(windowEnd.getDate() + days);
+
+  const candidates = getReviewTargets(cards)
+    .filter(({ card }) => {
+      const due = new Date(card.srsDue);
+      return due >= todayEnd && due < windowEnd;
+    })
+    .map(item => toChange(item, now.toISOString(), now))
+    .sort((a, b) => a.recallAfter - b.recallAfter);
+
+  return summarize(limit > 0 ? candidates.slice(0, limit) : candidates);
+}
+
+/**
+ * Applies a plan to the cards and returns the updated list.
+ */
+export function applyPlan(cards: Card[], plan: ReschedulePlan): Card[] {
+  const byCard = new Map<string, DueChange[]>();
+  plan.changes.forEach(change => byCard.set(change.id, [...(byCard.get(change.id) || []), change]));
+  return cards.map(c => (byCard.get(c.id) || [])
+    .reduce((card, change) => setSchedule(card, change.kind, { srsDue: change.newDue }), c));
+}
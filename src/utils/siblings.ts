@@ -0,0 +1,117 @@
+import { Card, CardKind, ReviewDirection, ReviewItem, SrsFields } from '../types';
+import { getDayKey, getRolloverHour } from './day';
+import { getSettings } from '../pages/Settings';
+
+// Sibling cards: every word can be reviewed as several card kinds (zh→fr recognition,
+// fr→zh production...), each with its own FSRS schedule. The primary kind is stored in
+// the card's top-level srs* fields (so existing data stays valid), the others in `siblings`.
+
+export const PRIMARY_KIND: CardKind = 'zh-fr';
+
+export const CARD_KINDS: CardKind[] = ['zh-fr', 'fr-zh', 'listening', 'pinyin-zh', 'cloze'];
+
+export const CARD_KIND_LABELS: Record<CardKind, string> = {
+  'zh-fr': 'ZH → FR',
+  'fr-zh': 'FR → ZH',
+  'listening': 'Listening',
+  'pinyin-zh': 'Pinyin → Hanzi',
+  'cloze': 'Cloze'
+};
+
+// Kinds studied in mixed mode when the setting is missing or empty
+const DEFAULT_MIXED_KINDS: CardKind[] = ['zh-fr', 'fr-zh'];
+
+const SRS_KEYS: (keyof SrsFields)[] = [
+  'srsState', 'srsStability', 'srsDifficulty', 'srsDue', 'srsLastReview', 'srsStep', 'srsLapses'
+];
+
+const NEW_SCHEDULE: SrsFields = {
+  srsState: 'new',
+  srsStability: 0,
+  srsDifficulty: 0,
+  srsDue: '',
+};
+
+/**
+ * Card kinds scheduled for a review direction setting.
+ */
+export function getKindsForDirection(direction: ReviewDirection): CardKind[] {
+  if (direction !== 'mixed') return [direction];
+  const kinds = (getSettings().mixedCardKinds || []).filter(kind => CARD_KINDS.includes(kind));
+  return kinds.length > 0 ? kinds : DEFAULT_MIXED_KINDS;
+}
+
+/**
+ * False when the word lacks what a kind needs (a cloze needs an example sentence
+ * containing the word, pinyin-zh needs pinyin).
+ */
+export function isKindAvailable(card: Card, kind: CardKind): boolean {
+  switch (kind) {
+    case 'cloze': return !!card.example && card.example.includes(card.hanzi);
+    case 'pinyin-zh': return !!card.pinyin?.trim();
+    default: return true;
+  }
+}
+
+/**
+ * The card with its top-level srs* fields replaced by the given kind's schedule.
+ */
+export function getSchedule(card: Card, kind: CardKind): Card {
+  if (kind === PRIMARY_KIND) return card;
+  const schedule = card.siblings?.[kind] || NEW_SCHEDULE;
+  const projected = { ...card };
+  SRS_KEYS.forEach(key => { delete projected[key]; });
+  return { ...projected, ...schedule };
+}
+
+/**
+ * Writes updates for one kind back into the word. Scheduling fields go to that kind's
+ * schedule; anything else (tags, suspension...) applies to the whole word.
+ */
+export function setSchedule(card: Card, kind: CardKind, updates: Partial<Card>): Card {
+  if (kind === PRIMARY_KIND) return { ...card, ...updates };
+
+  const schedule: Partial<SrsFields> = {};
+  const wordUpdates: Partial<Card> = { ...updates };
+  SRS_KEYS.forEach(key => {
+    if (key in updates) {
+      (schedule as Record<string, unknown>)[key] = updates[key];
+      delete wordUpdates[key];
+    }
+  });
+
+  const current = card.siblings?.[kind] || NEW_SCHEDULE;
+  return {
+    ...card,
+    ...wordUpdates,
+    siblings: { ...card.siblings, [kind]: { ...current, ...schedule } }
+  };
+}
+
+/**
+ * Every schedulable item of the given kinds.
+ */
+export function getReviewItems(cards: Card[], kinds: CardKind[]): ReviewItem[] {
+  return cards.flatMap(card => kinds
+    .filter(kind => isKindAvailable(card, kind))
+    .map(kind => ({ card: getSchedule(card, kind), kind })));
+}
+
+export const getItemKey = (item: ReviewItem) => `${item.card.id}:${item.kind}`;
+
+/**
+ * True if another kind of this word was already reviewed today (sibling burying).
+ */
+export function wasSiblingReviewedToday(
+  card: Card,
+  kind: CardKind,
+  now: Date = new Date(),
+  rolloverHour = getRolloverHour()
+): boolean {
+  const today = getDayKey(now, rolloverHour);
+  return CARD_KINDS.some(other => {
+    if (other === kind) return false;
+    const lastReview = getSchedule(card, other).srsLastReview;
+    return !!lastReview && getDayKey(new Date(lastReview), rolloverHour) === today;
+  });
+}
@@ -0,0 +1,155 @@
+import { Card, ReviewLog } from '../types';
+import {
+  GRADES, MAXIMUM_INTERVAL, MemoryState, forgettingCurve, intervalForRetention, nextMemoryState
+} from './fsrsModel';
+
+// Workload simulator: runs the deck forward day by day with the FSRS model
+// to estimate how many reviews (and how much time) a retention target costs.
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+export interface ReviewCosts {
+  newCard: number; // Seconds spent on a card's first review
+  review: number;  // Seconds per successful review
+  lapse: number;   // Seconds per failed review
+}
+
+const DEFAULT_COSTS: ReviewCosts = { newCard: 20, review: 8, lapse: 15 };
+const MAX_COUNTED_DURATION = 60000; // Ignore idle time beyond 1 minute per card
+
+export interface SimulationOptions {
+  weights: number[];
+  retention: number;
+  days: number;
+  newCardsPerDay: number;
+  costs: ReviewCosts;
+  startDate?: Date; // Start of day 0
+}
+
+export interface SimulationDay {
+  reviews: number;   // Reviews of already-studied cards
+  newCards: number;  // Cards introduced that day
+  lapses: number;    // Reviews expected to be forgotten
+  seconds: number;   // Expected time spent
+}
+
+export interface SimulationResult {
+  retention: number;
+  daily: SimulationDay[];
+  totalReviews: number;
+  totalSeconds: number;
+  memorized: number; // Expected number of cards recalled on the last day
+}
+
+interface SimCard {
+  memory: MemoryState | null;
+  lastDay: number; // Day index of the last review (may be negative)
+  dueDay: number;  // Day index when the card is next reviewed
+}
+
+/**
+ * Average time per review type from the revlog, falling back to defaults.
+ */
+export function estimateReviewCosts(logs: ReviewLog[]): ReviewCosts {
+  const average = (entries: ReviewLog[], fallback: number) => {
+    const durations = entries.map(l => l.duration).filter(d => d > 0 && d < MAX_COUNTED_DURATION);
+    if (durations.length < 10) return fallback;
+    return durations.reduce((a, b) => a + b, 0) / durations.length / 1000;
+  };
+
+  return {
+    newCard: average(logs.filter(l => l.stateBefore === 'new'), DEFAULT_COSTS.newCard),
+    review: average(logs.filter(l => l.stateBefore !== 'new' && l.rating !== 'again'), DEFAULT_COSTS.review),
+    lapse: average(logs.filter(l => l.stateBefore !== 'new' && l.rating === 'again'), DEFAULT_COSTS.lapse)
+  };
+}
+
+// Small deterministic PRNG so runs with different retentions are comparable
+function createRandom(seed: number) {
+  let state = seed;
+  return () => {
+    state = (state * 16807) % 2147483647;
+    return state / 2147483647;
+  };
+}
+
+/**
+ * Simulates the deck forward `days` days under the given retention target.
+ */
+export function simulate(cards: Card[], options: SimulationOptions): SimulationResult {
+  const { weights, retention, days, newCardsPerDay, costs } = options;
+  // Day 0 starts at startDate (the app passes the start of the study day), else at midnight
+  const start = options.startDate ? new Date(options.startDate) : new Date(new Date().setHours(0, 0, 0, 0));
+  const random = createRandom(42);
+
+  const dayIndex = (iso: string) => Math.floor((new Date(iso).getTime() - start.getTime()) / DAY_MS);
+
+  const active: SimCard[] = [];
+  let newPool = 0;
+  cards.forEach(c => {
+    if (c.srsState === 'new' || !c.srsDue || !c.srsStability) {
+      newPool++;
+      return;
+    }
+    const dueDay = Math.max(0, dayIndex(c.srsDue));
+    active.push({
+      memory: { stability: c.srsStability, difficulty: c.srsDifficulty || 5 },
+      lastDay: c.srsLastReview ? dayIndex(c.srsLastReview) : dueDay,
+      dueDay
+    });
+  });
+
+  const schedule = (card: SimCard, day: number, recalled: boolean) => {
+    const interval = recalled
+      ? Math.min(MAXIMUM_INTERVAL, Math.max(1, Math.round(intervalForRetention(card.memory!.stability, retention))))
+      : 1; // Relearn tomorrow
+    card.lastDay = day;
+    card.dueDay = day + interval;
+  };
+
+  const daily: SimulationDay[] = [];
+  for (let day = 0; day < days; day++) {
+    const stats: SimulationDay = { reviews: 0, newCards: 0, lapses: 0, seconds: 0 };
+
+    active.forEach(card => {
+      if (card.dueDay > day) return;
+      const elapsed = Math.max(0, day - card.lastDay);
+      const recalled = random() < forgettingCurve(elapsed, card.memory!.stability);
+      card.memory = nextMemoryState(weights, card.memory, elapsed, recalled ? GRADES.good : GRADES.again);
+      schedule(card, day, recalled);
+
+      stats.reviews++;
+      if (recalled) {
+        stats.seconds += costs.review;
+      } else {
+        stats.lapses++;
+        stats.seconds += costs.lapse;
+      }
+    });
+
+    const introduced = Math.min(newPool, newCardsPerDay);
+    for (let i = 0; i < introduced; i++) {
+      const card: SimCard = { memory: nextMemoryState(weights, null, 0, GRADES.good), lastDay: day, dueDay: day };
+      schedule(card, day, true);
+      active.push(card);
+    }
+    newPool -= introduced;
+    stats.newCards = introduced;
+    stats.seconds += introduced * costs.newCard;
+
+    daily.push(stats);
+  }
+
+  const lastDay = days - 1;
+  const memorized = active.reduce((sum, card) => {
+    return sum + forgettingCurve(Math.max(0, lastDay - card.lastDay), card.memory!.stability);
+  }, 0);
+
+  return {
+    retention,
+    daily,
+    totalReviews: daily.reduce((sum, d) => sum + d.reviews + d.newCards, 0),
+    totalSeconds: daily.reduce((sum, d) => sum + d.seconds, 0),
+    memorized
+  };
+}
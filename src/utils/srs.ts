@@ -1,19 +1,82 @@
 import { Card } from '../types';
+import { getSettings } from '../pages/Settings';
+import { CARD_KINDS, getReviewItems } from './siblings';
+import { getDayKey, getNextDayStart, getRolloverHour } from './day';
+
+export const LEECH_TAG = 'leech';
 
 /**
  * Checks if a card is due for review.
+ * Review cards are due for the whole study day they fall on; learning and
+ * relearning steps are due at their exact time.
  */
-export function isCardDue(card: Card): boolean {
+export function isCardDue(card: Card, now: Date = new Date(), rolloverHour = getRolloverHour()): boolean {
   // If no due date (New card), it's not "Due" in the sense of "Overdue Review"
   if (!card.srsDue) return false;
   
   // Use timestamps for strict comparison to avoid any object identity issues
-  const now = Date.now(); 
   const dueDate = new Date(card.srsDue).getTime();
   
   // Invalid date check
   if (isNaN(dueDate)) return false;
 
-  return dueDate <= now;
+  if (card.srsState === 'learning' || card.srsState === 'relearning') {
+    return dueDate <= now.getTime();
+  }
+  return dueDate < getNextDayStart(now, rolloverHour).getTime();
+}
+
+
+export function isCardBuried(card: Card, now: Date = new Date()): boolean {
+  return !!card.buriedUntil && new Date(card.buriedUntil).getTime() > now.getTime();
 }
 
+/**
+ * False for suspended cards and cards buried until later.
+ */
+export function isCardActive(card: Card, now: Date = new Date()): boolean {
+  return !card.suspended && !isCardBuried(card, now);
+}
+
+/**
+ * Burying hides a card until the start of the next study day.
+ */
+export function getBuryUntil(now: Date = new Date()): string {
+  return getNextDayStart(now).toISOString();
+}
+
+/**
+ * Tags (and optionally suspends) a card once its lapse count reaches the leech
+ * threshold, then again every half threshold like Anki. Returns null if nothing changes.
+ */
+export function checkLeech(card: Card): Partial<Card> | null {
+  const { leechThreshold, autoSuspendLeeches } = getSettings();
+  const lapses = card.srsLapses || 0;
+  if (leechThreshold <= 0 || lapses < leechThreshold) return null;
+
+  const every = Math.max(1, Math.ceil(leechThreshold / 2));
+  if ((lapses - leechThreshold) % every !== 0) return null;
+
+  const tags = card.tags || [];
+  return {
+    tags: tags.includes(LEECH_TAG) ? tags : [...tags, LEECH_TAG],
+    suspended: autoSuspendLeeches ? true : card.suspended
+  };
+}
+
+/**
+ * Number of scheduled (non-new) cards due on each day, keyed by getDayKey.
+ * Every card kind (sibling) of a word counts separately.
+ */
+export function getDueLoad(cards: Card[]): Map<string, number> {
+  const load = new Map<string, number>();
+  const rolloverHour = getRolloverHour();
+  getReviewItems(cards, CARD_KINDS).forEach(({ card: c }) => {
+    if (c.srsState === 'new' || !c.srsDue || c.suspended) return;
+    const due = new Date(c.srsDue);
+    if (isNaN(due.getTime())) return;
+    const key = getDayKey(due, rolloverHour);
+    load.set(key, (load.get(key) || 0) + 1);
+  });
+  return load;
+}
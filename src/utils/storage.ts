@@ -1,10 +1,12 @@
-import { Card } from '../types';
+import { Card, ReviewLog } from '../types';
 import { getSettings } from '../pages/Settings';
 import { db } from './firebase';
+import { getDayKey } from './day';
 import { doc, getDoc, setDoc, deleteDoc } from 'firebase/firestore';
 
 const STORAGE_KEY = 'mandarin-anki-cards';
 const REVIEW_LOG_KEY = 'mandarin-anki-review-log';
+const REVLOG_KEY = 'mandarin-anki-revlog';
 const STORIES_KEY = 'mandarin-anki-stories';
 const COLLECTION_NAME = 'anki_users';
 
@@ -138,6 +140,7 @@ export const storage = {
   clearDatabase: async (userId?: string) => {
     localStorage.removeItem(STORAGE_KEY);
     localStorage.removeItem(REVIEW_LOG_KEY);
+    localStorage.removeItem(REVLOG_KEY);
     localStorage.removeItem(STORIES_KEY);
     localStorage.removeItem('mandarin-anki-settings');
     
@@ -264,7 +267,7 @@ export const storage = {
   getDailyLog: (): DailyLog => {
     try {
       const json = localStorage.getItem(REVIEW_LOG_KEY);
-      const today = new Date().toLocaleDateString('en-CA'); // YYYY-MM-DD in local time
+      const today = getDayKey(); // Study day: rolls over at the configured hour
       
       if (json) {
         const log: DailyLog = JSON.parse(json);
@@ -279,7 +282,7 @@ export const storage = {
       }
       return { date: today, newCardsCount: 0, totalReviews: 0, timeSpent: 0 };
     } catch {
-      return { date: new Date().toLocaleDateString('en-CA'), newCardsCount: 0, totalReviews: 0, timeSpent: 0 };
+      return { date: getDayKey(), newCardsCount: 0, totalReviews: 0, timeSpent: 0 };
     }
   },
 
@@ -301,6 +304,73 @@ export const storage = {
     localStorage.setItem(REVIEW_LOG_KEY, JSON.stringify(log));
   },
 
+  /**
+   * Reverts a logReview call (used by Undo).
+   */
+  unlogReview: (isNewCard: boolean, timeElapsed: number = 0) => {
+    const log = storage.getDailyLog();
+    log.totalReviews = Math.max(0, log.totalReviews - 1);
+    if (isNewCard) log.newCardsCount = Math.max(0, log.newCardsCount - 1);
+    log.timeSpent = Math.max(0, log.timeSpent - timeElapsed);
+    localStorage.setItem(REVIEW_LOG_KEY, JSON.stringify(log));
+  },
+
+  // --- Review History (Revlog) ---
+  // Unlike the daily log, entries are appended and never reset.
+  // Kept local only: the full history would quickly outgrow the cloud document.
+
+  getReviewLogs: (): ReviewLog[] => {
+    try {
+      const json = localStorage.getItem(REVLOG_KEY);
+      if (!json) return [];
+      return JSON.parse(json);
+    } catch {
+      return [];
+    }
+  },
+
+  addReviewLog: (entry: ReviewLog) => {
+    try {
+      const logs = storage.getReviewLogs();
+      logs.push(entry);
+      localStorage.setItem(REVLOG_KEY, JSON.stringify(logs));
+    } catch (e) {
+      console.error('Failed to save review log', e);
+    }
+  },
+
+  removeReviewLog: (id: string) => {
+    try {
+      const logs = storage.getReviewLogs().filter(l => l.id !== id);
+      localStorage.setItem(REVLOG_KEY, JSON.stringify(logs));
+    } catch (e) {
+      console.error('Failed to remove review log', e);
+    }
+  },
+
+  /**
+   * All reviews of a card, oldest first.
+   */
+  getReviewLogsForCard: (cardId: string): ReviewLog[] => {
+    return storage.getReviewLogs()
+      .filter(l => l.cardId === cardId)
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  },
+
+  /**
+   * Reviews with from <= timestamp < to, oldest first.
+   */
+  getReviewLogsInRange: (from: Date, to: Date): ReviewLog[] => {
+    const start = from.getTime();
+    const end = to.getTime();
+    return storage.getReviewLogs()
+      .filter(l => {
+        const t = new Date(l.timestamp).getTime();
+        return t >= start && t < end;
+      })
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  },
+
   // --- Cloud Methods ---
 
   syncToCloud: async (cards: Card[], userId: string) => {
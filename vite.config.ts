@@ -1,9 +1,46 @@
-import { defineConfig } from 'vite'
+import fs from 'node:fs'
+import path from 'node:path'
+import { defineConfig, Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
+// Per-character stroke data (handwriting grading, stroke order) served as static files
+// under /strokes/: straight from node_modules in dev, copied into the build otherwise.
+// ~9,500 small JSON files, fetched one character at a time.
+function strokeData(): Plugin {
+  const source = path.resolve(__dirname, 'node_modules/hanzi-writer-data')
+  const isCharacterFile = (file: string) => file.endsWith('.json') && file !== 'package.json'
+
+  return {
+    name: 'stroke-data',
+    configureServer(server) {
+      server.middlewares.use('/strokes', (req, res, next) => {
+        let file: string
+        try {
+          // Decode before taking the name, so encoded separators can't climb out
+          file = path.basename(decodeURIComponent((req.url || '').split('?')[0]))
+        } catch {
+          return next()
+        }
+        const fullPath = path.resolve(source, file)
+        const inSource = path.dirname(fullPath) === source
+        if (!inSource || !isCharacterFile(file) || !fs.existsSync(fullPath)) return next()
+        res.setHeader('Content-Type', 'application/json')
+        fs.createReadStream(fullPath).pipe(res)
+      })
+    },
+    writeBundle(options) {
+      const target = path.join(options.dir || 'dist', 'strokes')
+      fs.mkdirSync(target, { recursive: true })
+      fs.readdirSync(source).filter(isCharacterFile).forEach(file => {
+        fs.copyFileSync(path.join(source, file), path.join(target, file))
+      })
+    }
+  }
+}
+
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), strokeData()],
   build: {
     rollupOptions: {
       output: {